@@ -0,0 +1,653 @@
+import * as _ from 'lodash'
+import * as wire from './wire'
+
+/*
+ * The binary format, version 2.
+ *
+ * A message is the magic byte `0x53`, the version byte, then a single value; a
+ * value is a tag byte followed by its payload. Lengths and counts are unsigned
+ * LEB128 varints of at most 2^53 - 1, strings are a length in bytes followed by
+ * UTF-8.
+ *
+ *   0x00 undefined
+ *   0x01 null
+ *   0x02 false
+ *   0x03 true
+ *   0x04 number, as a 64-bit big-endian float
+ *   0x05 non-negative safe integer, as a varint
+ *   0x06 negative safe integer, as a varint of its opposite
+ *   0x07 bigint, as a string of its decimal digits
+ *   0x08 string
+ *   0x09 array, a count then that many values
+ *   0x0a object, a count then that many pairs of a string key and a value
+ *   0x0b map, a count then that many pairs of a key value and a value
+ *   0x0c set, a count then that many values
+ *   0x0d date, its time as a 64-bit big-endian float
+ *   0x0e regexp, two strings: the source and the flags
+ *   0x0f error, two strings (the name and the message) and a value (the stack)
+ *   0x10 array buffer, a length then that many bytes
+ *   0x11 typed array or `DataView`, a kind byte (see `VIEWS`), a length then
+ *        that many bytes as laid out in memory, so little-endian in practice
+ *   0x12 image data, the width and height as varints, a color space string and
+ *        the pixels as a typed array value
+ *   0x13 plain `wire.Value`, its value
+ *   0x14 encoded `wire.Value`, the name of the codec as a string then its value
+ *   0x15 reference `wire.Value`, its id as a varint
+ *   0x16 plain or encoded `wire.Value` with an id, the id as a varint then the
+ *        plain or encoded value
+ *
+ * Version 1 is the same without references and ids.
+ *
+ * Nothing is transferred: transfer lists of `wire.Value`s are dropped, and
+ * blobs, files, file lists, image bitmaps and ports cannot be serialized at
+ * all, they are not `wire.Serializable`. Typed
+ * arrays come back with a buffer of their own, even when they shared one.
+ */
+
+/**
+ * The first byte of every message.
+ */
+export const MAGIC = 0x53
+
+/**
+ * The version of the format written, earlier ones are read as well.
+ */
+export const VERSION = 2
+
+/**
+ * Values nested deeper than this are refused.
+ */
+export const MAX_DEPTH = 512
+
+const enum Tag {
+	UNDEFINED,
+	NULL,
+	FALSE,
+	TRUE,
+	FLOAT,
+	UINT,
+	NINT,
+	BIGINT,
+	STRING,
+	ARRAY,
+	OBJECT,
+	MAP,
+	SET,
+	DATE,
+	REGEXP,
+	ERROR,
+	BUFFER,
+	VIEW,
+	IMAGE,
+	PLAIN,
+	ENCODED,
+	REFERENCE,
+	IDENTIFIED,
+}
+
+/**
+ * The kinds of typed arrays, in the order of their kind byte.
+ */
+const VIEWS = [
+	'Int8Array',
+	'Uint8Array',
+	'Uint8ClampedArray',
+	'Int16Array',
+	'Uint16Array',
+	'Int32Array',
+	'Uint32Array',
+	'Float32Array',
+	'Float64Array',
+	'BigInt64Array',
+	'BigUint64Array',
+	'DataView',
+]
+
+/**
+ * Errors that come back as their own class, any other is an `Error` with the
+ * same name.
+ */
+const ERRORS = [EvalError, RangeError, ReferenceError, SyntaxError, TypeError, URIError]
+
+/**
+ * Serialize a value, usually a `wire.Value`, to bytes.
+ */
+export function serialize(value: wire.Value | wire.Serializable): Uint8Array {
+	const writer = new Writer()
+	writer.byte(MAGIC)
+	writer.byte(VERSION)
+	writer.value(value, new Set())
+
+	return writer.finish()
+}
+
+/**
+ * Read back a serialized value, throws on anything malformed or written in
+ * a later version of the format.
+ */
+export function deserialize(data: Uint8Array): any {
+	const reader = new Reader(data)
+
+	if (reader.byte() != MAGIC) {
+		throw malformed('not a message')
+	}
+
+	const version = (reader.version = reader.byte())
+	if (version < 1 || version > VERSION) {
+		throw new Error(`the version ${version} of the binary format is not supported`)
+	}
+
+	const value = reader.value(0)
+	if (!reader.done) {
+		throw malformed('trailing bytes')
+	}
+
+	return value
+}
+
+function malformed(reason: string): Error {
+	return new Error(`malformed message: ${reason}`)
+}
+
+/**
+ * Writes values into a growing buffer.
+ */
+class Writer {
+	private buffer: Uint8Array
+	private view: DataView
+	private length: number
+	private encoder: TextEncoder
+
+	constructor() {
+		this.buffer = new Uint8Array(256)
+		this.view = new DataView(this.buffer.buffer)
+		this.length = 0
+		this.encoder = new TextEncoder()
+	}
+
+	finish(): Uint8Array {
+		return this.buffer.slice(0, this.length)
+	}
+
+	private reserve(size: number): void {
+		if (this.length + size <= this.buffer.length) {
+			return
+		}
+
+		const buffer = new Uint8Array(Math.max(this.buffer.length * 2, this.length + size))
+		buffer.set(this.buffer.subarray(0, this.length))
+		this.buffer = buffer
+		this.view = new DataView(buffer.buffer)
+	}
+
+	byte(value: number): void {
+		this.reserve(1)
+		this.buffer[this.length++] = value
+	}
+
+	varint(value: number): void {
+		while (value >= 0x80) {
+			this.byte(value % 0x80 | 0x80)
+			value = Math.floor(value / 0x80)
+		}
+
+		this.byte(value)
+	}
+
+	float(value: number): void {
+		this.reserve(8)
+		this.view.setFloat64(this.length, value)
+		this.length += 8
+	}
+
+	bytes(value: Uint8Array): void {
+		this.varint(value.length)
+		this.reserve(value.length)
+		this.buffer.set(value, this.length)
+		this.length += value.length
+	}
+
+	string(value: string): void {
+		this.bytes(this.encoder.encode(value))
+	}
+
+	/**
+	 * Write a value, `parents` are the objects being written around it so
+	 * cycles are caught.
+	 */
+	value(value: any, parents: Set<object>): void {
+		if (_.isObject(value)) {
+			if (parents.has(value)) {
+				throw new Error('cyclic values cannot be serialized')
+			}
+
+			parents.add(value)
+
+			try {
+				this.object(value, parents)
+			} finally {
+				parents.delete(value)
+			}
+
+			return
+		}
+
+		switch (typeof value) {
+			case 'undefined':
+				return this.byte(Tag.UNDEFINED)
+
+			case 'boolean':
+				return this.byte(value ? Tag.TRUE : Tag.FALSE)
+
+			case 'number':
+				if (Number.isSafeInteger(value) && !Object.is(value, -0)) {
+					this.byte(value < 0 ? Tag.NINT : Tag.UINT)
+					return this.varint(Math.abs(value))
+				}
+
+				this.byte(Tag.FLOAT)
+				return this.float(value)
+
+			case 'bigint':
+				this.byte(Tag.BIGINT)
+				return this.string(value.toString())
+
+			case 'string':
+				this.byte(Tag.STRING)
+				return this.string(value)
+		}
+
+		if (value === null) {
+			return this.byte(Tag.NULL)
+		}
+
+		throw new Error(`a \`${typeof value}\` cannot be serialized`)
+	}
+
+	private object(value: object, parents: Set<object>): void {
+		if (wire.isEncoded(value)) {
+			if (value.type == wire.Type.REFERENCE) {
+				this.byte(Tag.REFERENCE)
+				return this.varint(value.id)
+			}
+
+			if (value.id !== undefined) {
+				this.byte(Tag.IDENTIFIED)
+				this.varint(value.id)
+			}
+
+			if (value.type == wire.Type.ENCODED) {
+				this.byte(Tag.ENCODED)
+				this.string(value.codec)
+			} else {
+				this.byte(Tag.PLAIN)
+			}
+
+			return this.value(value.value, parents)
+		}
+
+		if (_.isArray(value)) {
+			this.byte(Tag.ARRAY)
+			this.varint(value.length)
+
+			for (const item of value) {
+				this.value(item, parents)
+			}
+
+			return
+		}
+
+		if (value instanceof Map) {
+			this.byte(Tag.MAP)
+			this.varint(value.size)
+
+			for (const [key, item] of value) {
+				this.value(key, parents)
+				this.value(item, parents)
+			}
+
+			return
+		}
+
+		if (value instanceof Set) {
+			this.byte(Tag.SET)
+			this.varint(value.size)
+
+			for (const item of value) {
+				this.value(item, parents)
+			}
+
+			return
+		}
+
+		if (value instanceof Date) {
+			this.byte(Tag.DATE)
+			return this.float(value.getTime())
+		}
+
+		if (value instanceof RegExp) {
+			this.byte(Tag.REGEXP)
+			this.string(value.source)
+			return this.string(value.flags)
+		}
+
+		if (_.isError(value)) {
+			this.byte(Tag.ERROR)
+			this.string(value.name)
+			this.string(value.message)
+			return this.value(value.stack, parents)
+		}
+
+		if (value instanceof ArrayBuffer) {
+			this.byte(Tag.BUFFER)
+			return this.bytes(new Uint8Array(value))
+		}
+
+		if (ArrayBuffer.isView(value)) {
+			const kind = VIEWS.findIndex((name) => value instanceof globalThis[name])
+			if (kind < 0) {
+				throw new Error(`a \`${value.constructor.name}\` cannot be serialized`)
+			}
+
+			this.byte(Tag.VIEW)
+			this.byte(kind)
+			return this.bytes(new Uint8Array(value.buffer, value.byteOffset, value.byteLength))
+		}
+
+		if (typeof ImageData == 'function' && value instanceof ImageData) {
+			this.byte(Tag.IMAGE)
+			this.varint(value.width)
+			this.varint(value.height)
+			this.string(value.colorSpace ?? 'srgb')
+			return this.value(value.data, parents)
+		}
+
+		if (!_.isPlainObject(value)) {
+			throw new Error(`a \`${value.constructor?.name ?? 'Object'}\` cannot be serialized`)
+		}
+
+		const entries = Object.entries(value)
+		this.byte(Tag.OBJECT)
+		this.varint(entries.length)
+
+		for (const [key, item] of entries) {
+			this.string(key)
+			this.value(item, parents)
+		}
+	}
+}
+
+/**
+ * Reads values back, checking every step of the way.
+ */
+class Reader {
+	/**
+	 * The version of the format being read, tags from later versions are unknown.
+	 */
+	version: number
+
+	private view: DataView
+	private offset: number
+	private decoder: TextDecoder
+
+	constructor(private data: Uint8Array) {
+		this.version = VERSION
+		this.view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+		this.offset = 0
+		this.decoder = new TextDecoder('utf-8', { fatal: true })
+	}
+
+	get done(): boolean {
+		return this.offset == this.data.length
+	}
+
+	private take(size: number): number {
+		if (size > this.data.length - this.offset) {
+			throw malformed('unexpected end')
+		}
+
+		const offset = this.offset
+		this.offset += size
+
+		return offset
+	}
+
+	byte(): number {
+		return this.data[this.take(1)]
+	}
+
+	varint(): number {
+		let value = 0
+
+		for (let shift = 0; shift < 56; shift += 7) {
+			const byte = this.byte()
+			value += (byte & 0x7f) * 2 ** shift
+
+			if (byte < 0x80) {
+				if (!Number.isSafeInteger(value)) {
+					break
+				}
+
+				return value
+			}
+		}
+
+		throw malformed('integer out of range')
+	}
+
+	/**
+	 * Read a count of items taking at least `size` bytes each, so a count
+	 * cannot claim more than what is left.
+	 */
+	count(size = 1): number {
+		const count = this.varint()
+		if (count * size > this.data.length - this.offset) {
+			throw malformed('unexpected end')
+		}
+
+		return count
+	}
+
+	float(): number {
+		return this.view.getFloat64(this.take(8))
+	}
+
+	bytes(): Uint8Array {
+		const length = this.count()
+		const offset = this.take(length)
+
+		return this.data.slice(offset, offset + length)
+	}
+
+	string(): string {
+		try {
+			return this.decoder.decode(this.bytes())
+		} catch (err) {
+			if (err instanceof TypeError) {
+				throw malformed('invalid UTF-8')
+			}
+
+			throw err
+		}
+	}
+
+	value(depth: number): any {
+		if (depth > MAX_DEPTH) {
+			throw malformed('too deeply nested')
+		}
+
+		const tag = this.byte()
+		if (this.version < 2 && (tag == Tag.REFERENCE || tag == Tag.IDENTIFIED)) {
+			throw malformed(`unknown tag ${tag}`)
+		}
+
+		switch (tag) {
+			case Tag.UNDEFINED:
+				return undefined
+
+			case Tag.NULL:
+				return null
+
+			case Tag.FALSE:
+				return false
+
+			case Tag.TRUE:
+				return true
+
+			case Tag.FLOAT:
+				return this.float()
+
+			case Tag.UINT:
+				return this.varint()
+
+			case Tag.NINT: {
+				const value = this.varint()
+				if (value == 0) {
+					throw malformed('negative zero as an integer')
+				}
+
+				return -value
+			}
+
+			case Tag.BIGINT: {
+				const digits = this.string()
+				if (!/^-?\d+$/.test(digits)) {
+					throw malformed('invalid bigint')
+				}
+
+				return BigInt(digits)
+			}
+
+			case Tag.STRING:
+				return this.string()
+
+			case Tag.ARRAY: {
+				const array: any[] = []
+				for (let i = this.count(); i > 0; i--) {
+					array.push(this.value(depth + 1))
+				}
+
+				return array
+			}
+
+			case Tag.OBJECT: {
+				const object = {}
+				for (let i = this.count(2); i > 0; i--) {
+					// Defined rather than assigned so a `__proto__` key stays a key.
+					Object.defineProperty(object, this.string(), {
+						value: this.value(depth + 1),
+						enumerable: true,
+						writable: true,
+						configurable: true,
+					})
+				}
+
+				return object
+			}
+
+			case Tag.MAP: {
+				const map = new Map()
+				for (let i = this.count(2); i > 0; i--) {
+					map.set(this.value(depth + 1), this.value(depth + 1))
+				}
+
+				return map
+			}
+
+			case Tag.SET: {
+				const set = new Set()
+				for (let i = this.count(); i > 0; i--) {
+					set.add(this.value(depth + 1))
+				}
+
+				return set
+			}
+
+			case Tag.DATE:
+				return new Date(this.float())
+
+			case Tag.REGEXP: {
+				const [source, flags] = [this.string(), this.string()]
+
+				try {
+					return new RegExp(source, flags)
+				} catch {
+					throw malformed('invalid regexp')
+				}
+			}
+
+			case Tag.ERROR: {
+				const [name, message] = [this.string(), this.string()]
+				const stack = this.value(depth + 1)
+				const error = new (ERRORS.find((error) => error.name == name) ?? Error)(message)
+
+				error.name = name
+				if (_.isString(stack)) {
+					error.stack = stack
+				}
+
+				return error
+			}
+
+			case Tag.BUFFER:
+				return this.bytes().buffer
+
+			case Tag.VIEW: {
+				const kind = VIEWS[this.byte()]
+				const buffer = this.bytes().buffer
+				const View = globalThis[kind]
+
+				if (!View) {
+					throw malformed('unknown typed array')
+				}
+
+				if (kind != 'DataView' && buffer.byteLength % View.BYTES_PER_ELEMENT != 0) {
+					throw malformed(`misaligned \`${kind}\``)
+				}
+
+				return new View(buffer)
+			}
+
+			case Tag.IMAGE: {
+				const [width, height, colorSpace] = [this.varint(), this.varint(), this.string()]
+				const data = this.value(depth + 1)
+
+				if (!(data instanceof Uint8ClampedArray) || data.length != width * height * 4) {
+					throw malformed('invalid image data')
+				}
+
+				if (typeof ImageData != 'function') {
+					throw new Error('`ImageData` is not available')
+				}
+
+				return new ImageData(data, width, height, { colorSpace } as ImageDataSettings)
+			}
+
+			case Tag.PLAIN:
+				return wire.plain(this.value(depth + 1))
+
+			case Tag.ENCODED: {
+				const codec = this.string()
+				return wire.encoded(codec, this.value(depth + 1))
+			}
+
+			case Tag.REFERENCE:
+				return wire.reference(this.varint())
+
+			case Tag.IDENTIFIED: {
+				const id = this.varint()
+				const node = this.value(depth + 1)
+
+				if (!wire.isEncoded(node) || node.type == wire.Type.REFERENCE) {
+					throw malformed('an id on something else than a value')
+				}
+
+				node.id = id
+				return node
+			}
+
+			default:
+				throw malformed(`unknown tag ${tag}`)
+		}
+	}
+}
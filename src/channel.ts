@@ -1,5 +1,11 @@
 import { Channel as Queue } from 'queueable'
 import { Wire, Wired, codec } from './wire'
+import * as metrics from './metrics'
+
+const malformed = metrics.counter(
+	'shumei_channel_malformed_total',
+	'Messages dropped because they could not be decoded.'
+)
 
 /**
  * Anything that behaves like a `MessagePort`.
@@ -43,13 +49,22 @@ export class Channel<T, P extends PortLike = MessagePort> implements Sender<T>,
 
 		const queue = (this.queue = new Queue())
 		port.onmessage = (e: MessageEvent) => {
-			const value = this.wire.decode(e.data)
+			let value: T
+
+			try {
+				value = this.wire.decode(e.data)
+			} catch (err) {
+				port.onmessageerror(new MessageEvent('messageerror', { data: err }))
+				return
+			}
 
 			if (value !== undefined) {
-				queue.push(this.wire.decode(e.data))
+				queue.push(value)
 			}
 		}
-		port.onmessageerror = (e: MessageEvent) => queue.return(e.data)
+
+		// A message that cannot be decoded is dropped, the ones after it can still be fine.
+		port.onmessageerror = () => malformed.inc()
 		this.iter = queue.wrap(() => port.close())
 	}
 
@@ -72,6 +87,7 @@ export class Channel<T, P extends PortLike = MessagePort> implements Sender<T>,
 
 	close() {
 		this.queue.return()
+		this.port.close?.()
 	}
 }
 
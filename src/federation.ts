@@ -0,0 +1,91 @@
+import * as _ from 'lodash'
+import { Channel as Queue } from 'queueable'
+import { Channel, PortLike } from './channel'
+
+/**
+ * What goes through the shared `BroadcastChannel`, `hello` announces a peer
+ * (to everybody or to a single one), `bye` says it is going away, and `data`
+ * carries messages from one peer to another.
+ */
+type Envelope = {
+	from: string
+	to?: string
+	hello?: boolean
+	bye?: boolean
+	data?: any
+}
+
+/**
+ * A `MessagePort` lookalike carrying messages to a single peer over the shared
+ * `BroadcastChannel`.
+ */
+export class Peer implements PortLike {
+	onmessage: (ev: MessageEvent) => any
+	onmessageerror: (ev: MessageEvent) => any
+
+	constructor(private bus: BroadcastChannel, public from: string, public to: string) {
+		this.onmessage = () => {}
+		this.onmessageerror = () => {}
+	}
+
+	postMessage(data: any, _transfer: Transferable[]): void {
+		this.bus.postMessage(<Envelope>{ from: this.from, to: this.to, data })
+	}
+}
+
+/**
+ * Get an iterator of channels to every peer announcing itself on the
+ * `BroadcastChannel` with the given name, `id` is how this side is known to
+ * the peers.
+ *
+ * Nothing that needs transferring can go through these channels, since a
+ * `BroadcastChannel` cannot transfer anything.
+ */
+export function peers<T>(name: string, id: string): AsyncIterableIterator<Channel<T, Peer>> {
+	const bus = new BroadcastChannel(name)
+	const known = new Map<string, Channel<T, Peer>>()
+	const channel = new Queue<Channel<T, Peer>>()
+
+	const connect = (to: string) => {
+		const peer = new Peer(bus, id, to)
+		const link = new Channel<T, Peer>(peer)
+
+		known.set(to, link)
+		channel.push(link)
+	}
+
+	bus.onmessage = (e: MessageEvent) => {
+		const envelope = e.data as Envelope
+		if (!_.isObject(envelope) || envelope.from == id || (envelope.to && envelope.to != id)) {
+			return
+		}
+
+		if (envelope.hello) {
+			if (known.has(envelope.from)) {
+				return
+			}
+
+			connect(envelope.from)
+
+			// Answer broadcast announcements so the new peer learns about us.
+			if (!envelope.to) {
+				bus.postMessage(<Envelope>{ from: id, to: envelope.from, hello: true })
+			}
+		} else if (envelope.bye) {
+			known.get(envelope.from)?.close()
+			known.delete(envelope.from)
+		} else {
+			known.get(envelope.from)?.port.onmessage(new MessageEvent('message', { data: envelope.data }))
+		}
+	}
+
+	if (_.isFunction(globalThis['addEventListener'])) {
+		globalThis.addEventListener('pagehide', () =>
+			bus.postMessage(<Envelope>{ from: id, bye: true })
+		)
+	}
+
+	bus.postMessage(<Envelope>{ from: id, hello: true })
+
+	return channel.wrap(() => bus.close())
+}
@@ -4,8 +4,19 @@ export * as worker from './worker'
 export * as worklet from './worklet'
 export * as remote from './remote'
 export * as stage from './stage'
+export * as supervisor from './supervisor'
+export * as server from './server'
+export * as pool from './pool'
+export * as router from './router'
+export * as federation from './federation'
+export * as metrics from './metrics'
+export * as trace from './trace'
+export * as scheduler from './scheduler'
+export * as memory from './memory'
+export * as stream from './stream'
+export * as binary from './binary'
 
 export { Channel as Queue, Deferred } from 'queueable'
 export { Channel } from './channel'
 export { Remote } from './remote'
-export { Actor, Stage } from './stage'
+export { Actor, Live, Stage, Signal, Reason, Exit } from './stage'
@@ -0,0 +1,37 @@
+/**
+ * A set that forgets the least recently added values once it grows past its
+ * capacity.
+ */
+export class LRU<T> {
+	private values: Set<T>
+
+	constructor(public capacity: number) {
+		this.values = new Set()
+	}
+
+	get size(): number {
+		return this.values.size
+	}
+
+	has(value: T): boolean {
+		return this.values.has(value)
+	}
+
+	/**
+	 * Add a value, or mark it as the most recent one if it is already there.
+	 */
+	add(value: T): this {
+		this.values.delete(value)
+		this.values.add(value)
+
+		if (this.values.size > this.capacity) {
+			this.values.delete(this.values.values().next().value)
+		}
+
+		return this
+	}
+
+	delete(value: T): boolean {
+		return this.values.delete(value)
+	}
+}
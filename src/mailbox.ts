@@ -10,61 +10,236 @@ export interface FilterFn<T> {
 export interface Sender<T> extends channel.Sender<T> {}
 
 export interface Receiver<T> extends channel.Receiver<T> {
-	match(pred: FilterFn<T>): Promise<T>
+	match(pred: FilterFn<T>, signal?: AbortSignal): Promise<T>
+}
+
+/**
+ * A message waiting in the buffer.
+ */
+type Node<T> = {
+	value: T
+	prev?: Node<T>
+	next?: Node<T>
+}
+
+/**
+ * A doubly linked list of messages, so that messages can be taken from
+ * anywhere in the buffer in constant time.
+ */
+class Messages<T> {
+	private head?: Node<T>
+	private tail?: Node<T>
+	size = 0
+
+	push(value: T): void {
+		const node: Node<T> = { value, prev: this.tail }
+
+		if (this.tail) {
+			this.tail.next = node
+		} else {
+			this.head = node
+		}
+
+		this.tail = node
+		this.size++
+	}
+
+	shift(): T | undefined {
+		return this.head ? this.unlink(this.head) : undefined
+	}
+
+	/**
+	 * Take the first message matching the predicate out of the list.
+	 */
+	take(pred: FilterFn<T>): { value: T } | undefined {
+		for (let node = this.head; node; node = node.next) {
+			if (pred(node.value)) {
+				return { value: this.unlink(node) }
+			}
+		}
+	}
+
+	private unlink(node: Node<T>): T {
+		if (node.prev) {
+			node.prev.next = node.next
+		} else {
+			this.head = node.next
+		}
+
+		if (node.next) {
+			node.next.prev = node.prev
+		} else {
+			this.tail = node.prev
+		}
+
+		this.size--
+		return node.value
+	}
+}
+
+/**
+ * A pending `match` waiting for a message.
+ */
+type Matcher<T> = {
+	pred: FilterFn<T>
+	result: Deferred<T>
+	signal?: AbortSignal
+	abort?: () => void
 }
 
 export class Mailbox<T> implements Sender<T>, Receiver<T>, Wired {
-	private buffer: Array<T>
+	private buffer: Messages<T>
+	private matchers: Array<Matcher<T>>
+	private pulling: boolean
 
-	constructor(private channel: channel.Sender<T> & channel.Receiver<T> & Wired) {
-		this.buffer = []
+	/**
+	 * The mailbox can also be fed directly through `push`, in which case there is
+	 * no need for an underlying channel.
+	 */
+	constructor(private channel?: channel.Sender<T> & channel.Receiver<T> & Wired) {
+		this.buffer = new Messages()
+		this.matchers = []
+		this.pulling = false
 	}
 
 	get wire() {
-		return this.channel.wire
+		return this.channel?.wire
+	}
+
+	/**
+	 * Number of messages waiting in the buffer.
+	 */
+	get size(): number {
+		return this.buffer.size
+	}
+
+	/**
+	 * Number of pending matches waiting for a message.
+	 */
+	get pending(): number {
+		return this.matchers.length
 	}
 
 	send(value: T) {
-		this.channel.send(value)
+		if (this.channel) {
+			this.channel.send(value)
+		} else {
+			this.push(value)
+		}
+	}
+
+	/**
+	 * Deliver a message straight to the first matching pending `match`, or to the
+	 * buffer if there is none.
+	 */
+	push(value: T): void {
+		// Settling a matcher removes it, so go through a copy.
+		for (const matcher of [...this.matchers]) {
+			let matches: boolean
+
+			// A failing predicate fails its own match, not the delivery.
+			try {
+				matches = matcher.pred(value)
+			} catch (err) {
+				this.settle(matcher)
+				matcher.result.reject(err)
+				continue
+			}
+
+			if (matches) {
+				this.settle(matcher)
+				matcher.result.resolve(value)
+				return
+			}
+		}
+
+		this.buffer.push(value)
+	}
+
+	/**
+	 * Stop tracking a pending match.
+	 */
+	private settle(matcher: Matcher<T>): void {
+		_.pull(this.matchers, matcher)
+		matcher.signal?.removeEventListener('abort', matcher.abort)
+	}
+
+	/**
+	 * Drop the oldest message in the buffer.
+	 */
+	shift(): T | undefined {
+		return this.buffer.shift()
 	}
 
 	[Symbol.asyncIterator](): AsyncIterator<T> {
+		if (!this.channel) {
+			throw new Error('the mailbox has no channel')
+		}
+
 		return this.channel[Symbol.asyncIterator]()
 	}
 
-	async recv(): Promise<T> {
-		if (_.isEmpty(this.buffer)) {
-			return await this.channel.recv()
+	async recv(signal?: AbortSignal): Promise<T> {
+		if (this.buffer.size == 0) {
+			return this.match(() => true, signal)
 		}
 
 		return this.buffer.shift()
 	}
 
-	async match(pred: FilterFn<T>): Promise<T> {
-		if (!_.isEmpty(this.buffer)) {
-			for (const [i, msg] of this.buffer.entries()) {
-				if (pred(msg)) {
-					return this.buffer.splice(i, 1)[0]
-				}
-			}
+	/**
+	 * Receive the first message matching the predicate, messages that do not
+	 * match are kept in the buffer for later.
+	 *
+	 * Pending matches are offered incoming messages in the order they were made,
+	 * when the signal is aborted the match is rejected, and any message that
+	 * arrives afterwards stays in the buffer.
+	 */
+	async match(pred: FilterFn<T>, signal?: AbortSignal): Promise<T> {
+		const buffered = this.buffer.take(pred)
+		if (buffered) {
+			return buffered.value
+		}
+
+		if (signal?.aborted) {
+			throw new Error('the match was aborted')
 		}
 
-		const result = new Deferred<T>()
-		const handle = async (channel: channel.Receiver<T>) => {
-			const msg = await channel.recv()
+		const matcher: Matcher<T> = { pred, result: new Deferred<T>(), signal }
+		this.matchers.push(matcher)
 
-			if (pred(msg)) {
-				result.resolve(msg)
-			} else {
-				this.buffer.push(msg)
-				return handle(channel)
+		if (signal) {
+			matcher.abort = () => {
+				this.settle(matcher)
+				matcher.result.reject(new Error('the match was aborted'))
 			}
+
+			signal.addEventListener('abort', matcher.abort, { once: true })
 		}
-		handle(this.channel)
-		return result.promise
+
+		this.pull()
+		return matcher.result.promise
+	}
+
+	/**
+	 * Pull messages from the channel while there are pending matchers, there is
+	 * only ever one pending `recv` on the underlying channel.
+	 */
+	private async pull(): Promise<void> {
+		if (this.pulling || !this.channel) {
+			return
+		}
+
+		this.pulling = true
+
+		while (!_.isEmpty(this.matchers)) {
+			this.push(await this.channel.recv())
+		}
+
+		this.pulling = false
 	}
 
 	close() {
-		this.channel.close()
+		this.channel?.close?.()
 	}
 }
@@ -0,0 +1,265 @@
+import { Channel, PortLike } from './channel'
+import { Scheduler, realtime } from './scheduler'
+import { Live, Link, Message, Stage } from './stage'
+import * as worker from './worker'
+
+/**
+ * A `MessagePort` lookalike living in memory, messages are structured cloned
+ * and delivered as tasks of the scheduler, in the order they were posted.
+ */
+export class Port implements PortLike {
+	onmessage: (ev: MessageEvent) => any
+	onmessageerror: (ev: MessageEvent) => any
+
+	/**
+	 * The port on the other side.
+	 */
+	other?: Port
+
+	/**
+	 * Whether either side was closed, nothing goes through after that.
+	 */
+	closed: boolean
+
+	constructor(private scheduler: Scheduler = realtime) {
+		this.onmessage = () => {}
+		this.onmessageerror = () => {}
+		this.closed = false
+	}
+
+	postMessage(message: any, transfer: Transferable[] = []): void {
+		const other = this.other
+		if (this.closed || !other) {
+			return
+		}
+
+		const data = structuredClone(message, { transfer })
+		this.scheduler.queue(() => {
+			if (!other.closed) {
+				other.onmessage(new MessageEvent('message', { data }))
+			}
+		}, other)
+	}
+
+	close(): void {
+		this.closed = true
+
+		if (this.other) {
+			this.other.closed = true
+		}
+	}
+}
+
+/**
+ * Create a pair of connected ports, like a `MessageChannel`.
+ */
+export function pair(scheduler: Scheduler = realtime): [Port, Port] {
+	const [a, b] = [new Port(scheduler), new Port(scheduler)]
+	a.other = b
+	b.other = a
+
+	return [a, b]
+}
+
+/**
+ * Link two stages in memory, as parent and child, through ports using the
+ * scheduler of the parent; resolves once the child is ready and the parent
+ * heard from it.
+ *
+ * ```ts
+ * const clock = new scheduler.Manual();
+ * const [a, b] = [new Live({ scheduler: clock }), new Live({ scheduler: clock })];
+ *
+ * const linked = memory.link(a, b);
+ * b.ready();
+ * await clock.settle();
+ * await linked;
+ * ```
+ */
+export async function link(parent: Live, child: Live): Promise<Stage> {
+	const [up, down] = pair(parent.scheduler)
+	const channel = new Channel<Message.Any, Port>(up)
+
+	channel.send({ type: Message.Type.STAGE, stage: parent.id })
+	child.attach(Link.PARENT, new Channel<Message.Any, Port>(down))
+
+	return parent.attach(Link.CHILD, channel)
+}
+
+/**
+ * What a fake worker runs, it gets the stage of the worker and has to make it
+ * ready like any worker would.
+ */
+export type Script = (stage: Live) => void | Promise<void>
+
+/**
+ * Call the `error` listeners of a fake worker.
+ */
+class Errors {
+	private listeners: Set<(ev: any) => any>
+
+	constructor() {
+		this.listeners = new Set()
+	}
+
+	add(listener: (ev: any) => any): void {
+		this.listeners.add(listener)
+	}
+
+	emit(error: any): void {
+		for (const listener of this.listeners) {
+			listener({ type: 'error', error, message: String(error?.message ?? error) })
+		}
+	}
+}
+
+/**
+ * A `Worker` lookalike running its stage in memory.
+ */
+export class FakeWorker extends Port implements worker.WorkerLike {
+	private errors: Errors
+
+	constructor(scheduler: Scheduler, private inside: Channel<Message.Any, Port>) {
+		super(scheduler)
+		this.errors = new Errors()
+	}
+
+	addEventListener(_type: 'error', listener: (ev: any) => any): void {
+		this.errors.add(listener)
+	}
+
+	/**
+	 * Fail like a worker throwing an uncaught error.
+	 */
+	fail(error: any): void {
+		this.errors.emit(error)
+	}
+
+	/**
+	 * Cut the worker off, its stage loses its parent; unlike a real worker its
+	 * actors keep running.
+	 */
+	terminate(): void {
+		this.close()
+		this.inside.close()
+	}
+}
+
+/**
+ * A `SharedWorker` lookalike running its stage in memory.
+ */
+export class FakeSharedWorker implements worker.SharedWorkerLike {
+	private errors: Errors
+
+	constructor(public port: Port) {
+		this.errors = new Errors()
+	}
+
+	addEventListener(_type: 'error', listener: (ev: any) => any): void {
+		this.errors.add(listener)
+	}
+
+	/**
+	 * Fail like a worker throwing an uncaught error.
+	 */
+	fail(error: any): void {
+		this.errors.emit(error)
+	}
+}
+
+/**
+ * A worker factory running scripts in memory instead of spawning workers, the
+ * source given to `dedicated` and `shared` is looked up among the scripts.
+ *
+ * Every dedicated worker gets a stage of its own, shared workers get a single
+ * stage per source; stages share the scheduler and the factory.
+ *
+ * ```ts
+ * const workers = new memory.Workers({
+ *   'echo.js': (stage) => {
+ *     stage.register('echo', echo);
+ *     stage.ready();
+ *   },
+ * });
+ *
+ * const main = new Live({ workers });
+ * await main.dedicated('echo.js');
+ * ```
+ */
+export class Workers implements worker.Factory {
+	private scheduler: Scheduler
+	private shareds: Map<string, Live>
+
+	/**
+	 * The stages started so far, by source.
+	 */
+	stages: Map<string, Live[]>
+
+	constructor(private scripts: Record<string, Script>, options: { scheduler?: Scheduler } = {}) {
+		this.scheduler = options.scheduler ?? realtime
+		this.shareds = new Map()
+		this.stages = new Map()
+	}
+
+	dedicated<T>(source: URL | string): worker.Dedicated<T> {
+		const script = this.script(source)
+		const inside = new Port(this.scheduler)
+		const channel = new Channel<Message.Any, Port>(inside)
+		const fake = new FakeWorker(this.scheduler, channel)
+
+		fake.other = inside
+		inside.other = fake
+
+		const stage = this.start(source, script, fake)
+		stage.attach(Link.PARENT, channel)
+
+		return new worker.Dedicated<T>(fake)
+	}
+
+	shared<T>(source: URL | string): worker.Shared<T> {
+		const script = this.script(source)
+		const [outside, inside] = pair(this.scheduler)
+		const fake = new FakeSharedWorker(outside)
+
+		let stage = this.shareds.get(source.toString())
+		if (!stage) {
+			stage = this.start(source, script, fake)
+			this.shareds.set(source.toString(), stage)
+		}
+
+		stage.attach(Link.PARENT, new Channel<Message.Any, Port>(inside))
+
+		return new worker.Shared<T>(fake)
+	}
+
+	/**
+	 * Find the script for a source.
+	 */
+	private script(source: URL | string): Script {
+		const script = this.scripts[source.toString()]
+		if (!script) {
+			throw new Error(`the worker \`${source}\` is unknown`)
+		}
+
+		return script
+	}
+
+	/**
+	 * Create a stage and run the script on it, errors thrown by the script are
+	 * reported by the worker.
+	 */
+	private start(source: URL | string, script: Script, fake: FakeWorker | FakeSharedWorker): Live {
+		const stage = new Live({ scheduler: this.scheduler, workers: this })
+		this.stages.set(source.toString(), [...(this.stages.get(source.toString()) ?? []), stage])
+
+		this.scheduler.queue(async () => {
+			try {
+				await stage.run(() => script(stage))
+			} catch (err) {
+				fake.fail(err)
+			}
+		})
+
+		return stage
+	}
+}
@@ -0,0 +1,255 @@
+import * as _ from 'lodash'
+import { v4 as uuid } from 'uuid'
+
+export type Labels = Record<string, string>
+
+/**
+ * The values of a metric for a single set of labels, `buckets` are cumulative
+ * counts by upper bound and only present for histograms.
+ */
+export type Series = {
+	labels: Labels
+	value: number
+	buckets?: Record<string, number>
+	count?: number
+}
+
+/**
+ * A metric with all its series, keyed by their labels.
+ */
+export type Family = {
+	name: string
+	help: string
+	type: 'counter' | 'histogram'
+	series: Record<string, Series>
+}
+
+/**
+ * Every metric of a registry, keyed by name; snapshots are plain data so they
+ * can be sent to other stages.
+ */
+export type Snapshot = Record<string, Family>
+
+/**
+ * Default histogram buckets, in seconds.
+ */
+export const BUCKETS = [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5]
+
+const LIVE = Symbol('shumei.metrics.live')
+
+/**
+ * Get the series for the given labels, creating it if needed.
+ */
+function series(family: Family, labels: Labels, init: () => Series): Series {
+	const key = keyOf(labels)
+	if (!family.series[key]) {
+		family.series[key] = init()
+	}
+
+	return family.series[key]
+}
+
+/**
+ * The key of the series for the given labels.
+ */
+function keyOf(labels: Labels): string {
+	return JSON.stringify(_.toPairs(labels).sort())
+}
+
+/**
+ * A value that only goes up.
+ */
+export class Counter {
+	constructor(private family: Family) {}
+
+	inc(labels: Labels = {}, value = 1): void {
+		series(this.family, labels, () => ({ labels, value: 0 })).value += value
+	}
+
+	/**
+	 * Forget the series for the given labels, for labels that will not be used
+	 * again.
+	 */
+	remove(labels: Labels): void {
+		delete this.family.series[keyOf(labels)]
+	}
+}
+
+/**
+ * Observations counted in buckets, the value of the series is their sum.
+ */
+export class Histogram {
+	constructor(private family: Family, private buckets: number[]) {}
+
+	observe(labels: Labels, value: number): void {
+		const current = series(this.family, labels, () => ({
+			labels,
+			value: 0,
+			count: 0,
+			buckets: _.fromPairs(this.buckets.map((bound) => [bound, 0])),
+		}))
+
+		current.value += value
+		current.count!++
+
+		for (const bound of this.buckets) {
+			if (value <= bound) {
+				current.buckets![bound]++
+			}
+		}
+	}
+
+	/**
+	 * Observe how long the given function takes, in seconds.
+	 */
+	time<T>(labels: Labels, fn: () => T): T {
+		const start = performance.now()
+
+		try {
+			return fn()
+		} finally {
+			this.observe(labels, (performance.now() - start) / 1000)
+		}
+	}
+}
+
+/**
+ * A set of metrics, one per process and shared by every stage in it.
+ */
+export class Registry {
+	/**
+	 * Tells registries apart, so stages sharing one are only scraped once.
+	 */
+	readonly id: string
+
+	private families: Snapshot
+
+	static live(): Registry {
+		if (!globalThis[LIVE]) {
+			globalThis[LIVE] = new Registry()
+		}
+
+		return globalThis[LIVE]
+	}
+
+	constructor() {
+		this.id = uuid()
+		this.families = {}
+	}
+
+	private family(name: string, help: string, type: Family['type']): Family {
+		const family = this.families[name]
+		if (family && family.type != type) {
+			throw new Error(`the metric \`${name}\` is already a ${family.type}`)
+		}
+
+		return (this.families[name] = family ?? { name, help, type, series: {} })
+	}
+
+	counter(name: string, help: string): Counter {
+		return new Counter(this.family(name, help, 'counter'))
+	}
+
+	histogram(name: string, help: string, buckets: number[] = BUCKETS): Histogram {
+		return new Histogram(this.family(name, help, 'histogram'), buckets)
+	}
+
+	/**
+	 * Take a copy of every metric.
+	 */
+	snapshot(): Snapshot {
+		return _.cloneDeep(this.families)
+	}
+}
+
+export function live(): Registry {
+	return Registry.live()
+}
+
+/**
+ * @see Registry.counter
+ */
+export function counter(name: string, help: string): Counter {
+	return live().counter(name, help)
+}
+
+/**
+ * @see Registry.histogram
+ */
+export function histogram(name: string, help: string, buckets?: number[]): Histogram {
+	return live().histogram(name, help, buckets)
+}
+
+/**
+ * Merge snapshots taken on different stages, adding the given labels to the
+ * series of each one so they can be told apart.
+ */
+export function merge(...snapshots: Array<{ labels: Labels; snapshot: Snapshot }>): Snapshot {
+	const merged: Snapshot = {}
+
+	for (const { labels, snapshot } of snapshots) {
+		for (const family of Object.values(snapshot)) {
+			const target = (merged[family.name] = merged[family.name] ?? { ...family, series: {} })
+
+			for (const current of Object.values(family.series)) {
+				const combined = { ...current, labels: { ...current.labels, ...labels } }
+				target.series[keyOf(combined.labels)] = combined
+			}
+		}
+	}
+
+	return merged
+}
+
+/**
+ * Render a snapshot in the Prometheus text exposition format.
+ */
+export function render(snapshot: Snapshot): string {
+	const lines: string[] = []
+
+	for (const family of _.sortBy(Object.values(snapshot), 'name')) {
+		lines.push(`# HELP ${family.name} ${escape(family.help, false)}`)
+		lines.push(`# TYPE ${family.name} ${family.type}`)
+
+		for (const current of Object.values(family.series)) {
+			if (family.type == 'counter') {
+				lines.push(`${family.name}${format(current.labels)} ${current.value}`)
+				continue
+			}
+
+			const bounds = _.sortBy(Object.keys(current.buckets ?? {}), Number)
+			for (const bound of bounds) {
+				const labels = format({ ...current.labels, le: bound })
+				lines.push(`${family.name}_bucket${labels} ${current.buckets![bound]}`)
+			}
+
+			lines.push(
+				`${family.name}_bucket${format({ ...current.labels, le: '+Inf' })} ${current.count}`
+			)
+			lines.push(`${family.name}_sum${format(current.labels)} ${current.value}`)
+			lines.push(`${family.name}_count${format(current.labels)} ${current.count}`)
+		}
+	}
+
+	return lines.join('\n') + '\n'
+}
+
+/**
+ * Format labels as `{name="value",...}`.
+ */
+function format(labels: Labels): string {
+	const pairs = _.toPairs(labels)
+	if (pairs.length == 0) {
+		return ''
+	}
+
+	return `{${pairs.map(([name, value]) => `${name}="${escape(value, true)}"`).join(',')}}`
+}
+
+/**
+ * Escape help texts and label values.
+ */
+function escape(value: string, quotes: boolean): string {
+	const escaped = value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')
+	return quotes ? escaped.replace(/"/g, '\\"') : escaped
+}
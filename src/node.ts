@@ -0,0 +1,26 @@
+import * as _ from 'lodash'
+
+declare const require: ((id: string) => any) | undefined
+
+/**
+ * Check whether this is running in Node.
+ */
+export function isNode(): boolean {
+	return !!globalThis['process']?.versions?.node
+}
+
+/**
+ * Load a Node built-in module, without bundlers noticing.
+ */
+export function builtin(name: string): any {
+	const process: any = globalThis['process']
+	if (_.isFunction(process?.getBuiltinModule)) {
+		return process.getBuiltinModule(name)
+	}
+
+	if (typeof require == 'function') {
+		return require(name)
+	}
+
+	throw new Error(`the Node module \`${name}\` cannot be loaded`)
+}
@@ -0,0 +1,186 @@
+import * as _ from 'lodash'
+import { live, Actor, Remote, Signal, Spawn, Stage } from './stage'
+import * as worker from './worker'
+
+/**
+ * How a pool picks the member a message is routed to.
+ */
+export enum Strategy {
+	/**
+	 * Members take turns.
+	 */
+	ROUND_ROBIN,
+
+	/**
+	 * Any member, at random.
+	 */
+	RANDOM,
+
+	/**
+	 * The member with the fewest messages waiting in its mailbox, as last reported
+	 * when a message was delivered to it.
+	 */
+	LEAST_MAILBOX,
+
+	/**
+	 * The member picked by hashing the key of the message, so messages with the
+	 * same key always end up on the same member.
+	 */
+	CONSISTENT_HASH,
+}
+
+export type Options<T = any> = {
+	/**
+	 * Number of workers in the pool.
+	 */
+	size: number
+
+	/**
+	 * Name of the actor every worker registers, messages are routed to it.
+	 */
+	actor: string
+
+	/**
+	 * Register the pool globally under this name, defaults to `actor`.
+	 */
+	name?: string
+
+	/**
+	 * Defaults to `Strategy.ROUND_ROBIN`.
+	 */
+	strategy?: Strategy
+
+	/**
+	 * The key messages are hashed by, required by `Strategy.CONSISTENT_HASH`.
+	 */
+	key?: (msg: T) => string
+}
+
+/**
+ * A worker in the pool.
+ */
+type Member = {
+	stage: Stage
+	actor: Actor<any>
+	ref: string
+	size: number
+}
+
+/**
+ * Create a pool that can be spawned like any other actor, it spawns `size`
+ * dedicated workers from `source` and routes every message it receives to the
+ * `actor` registered by one of them.
+ *
+ * Members that die (or whose worker dies) are replaced by a new worker in the
+ * same slot, so consistent hashing keeps sending the same keys to the same
+ * slot; messages that arrive in the meantime wait in the pool's mailbox.
+ */
+export function balance<T>(source: URL | string, options: Options<T>): Spawn<T> {
+	const strategy = options.strategy ?? Strategy.ROUND_ROBIN
+	if (strategy == Strategy.CONSISTENT_HASH && !options.key) {
+		throw new Error('the consistent hash strategy needs a `key`')
+	}
+
+	return async function* (self: Actor<T>): AsyncGenerator<undefined, void, T> {
+		const stage = live()
+		const members: Member[] = []
+		let turn = 0
+
+		const join = async (slot: number) => {
+			const member = await stage.dedicated(source)
+			const actor = await stage.actor(options.actor, member)
+
+			if (!actor) {
+				terminate(member)
+				throw new Error(`the pool member \`${options.actor}\` could not be found`)
+			}
+
+			members[slot] = { stage: member, actor, ref: self.monitor(actor), size: 0 }
+		}
+
+		const leave = (member: Member) => {
+			self.demonitor(member.ref)
+			terminate(member.stage)
+		}
+
+		const pick = (msg: T): Member => {
+			switch (strategy) {
+				case Strategy.RANDOM:
+					return _.sample(members)!
+
+				case Strategy.LEAST_MAILBOX:
+					return _.minBy(members, (member) => member.size)!
+
+				case Strategy.CONSISTENT_HASH:
+					return members[hash(options.key!(msg)) % members.length]
+
+				default:
+					return members[turn++ % members.length]
+			}
+		}
+
+		try {
+			for (let slot = 0; slot < options.size; slot++) {
+				await join(slot)
+			}
+
+			while (true) {
+				const msg: T | Signal.Any = yield
+				const dead = Signal.isDown(msg) ? members.findIndex((m) => m.ref == msg.ref) : -1
+
+				if (dead >= 0) {
+					leave(members[dead])
+					await join(dead)
+					continue
+				}
+
+				const member = pick(msg as T)
+				member.size++
+
+				// Messages refused by the member are lost, like any other failed send.
+				stage.deliver(member.actor.address, msg).then(
+					(size) => {
+						member.size = size ?? member.size
+					},
+					() => {}
+				)
+			}
+		} finally {
+			for (const member of _.compact(members)) {
+				leave(member)
+			}
+		}
+	}
+}
+
+/**
+ * Terminate the worker behind a stage.
+ */
+function terminate(stage: Stage): void {
+	const channel = (stage as Remote).channel
+
+	if (channel instanceof worker.Dedicated) {
+		channel.terminate()
+	}
+}
+
+/**
+ * 32-bit FNV-1a hash of a string, with a final avalanche so that short keys
+ * differing only in the last character still spread out.
+ */
+export function hash(key: string): number {
+	let hash = 0x811c9dc5
+
+	for (let i = 0; i < key.length; i++) {
+		hash ^= key.charCodeAt(i)
+		hash = Math.imul(hash, 0x01000193)
+	}
+
+	hash ^= hash >>> 16
+	hash = Math.imul(hash, 0x85ebca6b)
+	hash ^= hash >>> 13
+	hash = Math.imul(hash, 0xc2b2ae35)
+	hash ^= hash >>> 16
+
+	return hash >>> 0
+}
@@ -4,6 +4,8 @@ import * as wire from './wire'
 import { Sender, Receiver, Channel, pair as mkChannelPair } from './channel'
 import { Mailbox, Receiver as MailboxReceiver } from './mailbox'
 import { Deferred } from 'queueable'
+import * as metrics from './metrics'
+import * as trace from './trace'
 
 /**
  * Messages for the remote value protocol.
@@ -28,6 +30,7 @@ export namespace Message {
 			seq: ID
 			type: Type.CONSTRUCT
 			arguments: any
+			trace?: trace.Context
 		}
 
 		export type Response = {
@@ -47,6 +50,7 @@ export namespace Message {
 			seq: ID
 			type: Type.APPLY
 			arguments: any
+			trace?: trace.Context
 		}
 
 		export type Response = {
@@ -66,6 +70,7 @@ export namespace Message {
 			seq: ID
 			type: Type.GET
 			prop: PropertyKey
+			trace?: trace.Context
 		}
 
 		export type Response = {
@@ -250,6 +255,19 @@ export namespace Remote {
 			: unknown)
 }
 
+const calls = metrics.histogram(
+	'shumei_remote_call_seconds',
+	'Time between a request on a remote value and its response.'
+)
+
+/**
+ * Start a span for a call on a remote value, as a child of the current one.
+ */
+function call(operation: string, id: string): trace.Active | undefined {
+	const tracer = trace.live()
+	return tracer.start('call', operation, tracer.current, { 'shumei.remote': id })
+}
+
 /**
  * A remotely accessible value.
  */
@@ -262,37 +280,48 @@ export function remote<T>(
 	return new Proxy(() => {}, {
 		async construct(_target: any, argArray: any, _newTarget?: any): Promise<object> {
 			const seq = uuid()
+			const span = call('construct', id)
 			const args = wire.encode(argArray)
 			const message = <Message.Construct.Request>{
 				id,
 				seq,
 				type: Message.Type.CONSTRUCT,
 				arguments: args,
+				trace: span?.context ?? trace.live().current,
 			}
 
 			wire.transfer(message, wire.transferable(args))
+
+			const start = performance.now()
 			channel.send(message)
 
 			const response = (await channel.match(
 				(msg: Message.Any) => msg.id == id && msg.seq == seq
 			)) as Message.Construct.Response
 
+			calls.observe({ operation: 'construct' }, (performance.now() - start) / 1000)
+			span?.end()
 			return response.value
 		},
 
 		async apply(_target: any, _thisArg: any, argArray?: any): Promise<any> {
 			const seq = uuid()
+			const span = call('apply', id)
+			const start = performance.now()
 			channel.send(<Message.Apply.Request>{
 				id,
 				seq,
 				type: Message.Type.APPLY,
 				arguments: argArray,
+				trace: span?.context ?? trace.live().current,
 			})
 
 			const response = (await channel.match(
 				(msg: Message.Any) => msg.id == id && msg.seq == seq
 			)) as Message.Apply.Response
 
+			calls.observe({ operation: 'apply' }, (performance.now() - start) / 1000)
+			span?.end()
 			return response.value
 		},
 
@@ -304,17 +333,22 @@ export function remote<T>(
 			}
 
 			const seq = uuid()
+			const span = call('get', id)
+			const start = performance.now()
 			channel.send(<Message.Get.Request>{
 				id,
 				seq,
 				type: Message.Type.GET,
 				prop: p,
+				trace: span?.context ?? trace.live().current,
 			})
 
 			const response = (await channel.match(
 				(msg: Message.Any) => msg.id == id && msg.seq == seq
 			)) as Message.Get.Response
 
+			calls.observe({ operation: 'get' }, (performance.now() - start) / 1000)
+			span?.end({ 'shumei.prop': String(p) })
 			return response.value
 		},
 
@@ -362,6 +396,20 @@ export function spawn(
 			(msg) => msg.type >= Message.Type.CONSTRUCT && msg.type <= Message.Type.DELETE && msg.id == id
 		)
 
+		// Whatever the value does while handling a traced call is a child of it.
+		const parent = 'trace' in msg ? msg.trace : undefined
+		const span = trace.live().start('serve', 'serve', parent, { 'shumei.remote': id })
+
+		try {
+			trace.live().within(span?.context ?? parent, () => serve(msg))
+		} finally {
+			span?.end()
+		}
+
+		handle()
+	}
+
+	const serve = (msg: Message.Any) => {
 		switch (msg.type) {
 			case Message.Type.CONSTRUCT:
 				{
@@ -425,8 +473,6 @@ export function spawn(
 				}
 				break
 		}
-
-		handle()
 	}
 	handle()
 
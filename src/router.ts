@@ -0,0 +1,227 @@
+import * as _ from 'lodash'
+import { live, addressOf, Actor, Address, Live, RemoteActor, Signal, Spawn } from './stage'
+import { hash } from './pool'
+
+/**
+ * A member of a router, names are looked up again whenever the actor behind
+ * them dies, so they keep working when the actor is restarted somewhere else.
+ */
+export type Member = Actor<any> | Address | string
+
+/**
+ * Number of points every member gets on the consistent hash ring.
+ */
+const REPLICAS = 64
+
+/**
+ * The members of a router, resolved lazily and monitored once resolved.
+ */
+class Group {
+	private resolved: Array<{ actor: Actor<any>; ref: string } | undefined>
+	private stage: Live
+
+	constructor(private self: Actor<any>, private members: Member[]) {
+		this.resolved = []
+		this.stage = live()
+	}
+
+	get size(): number {
+		return this.members.length
+	}
+
+	/**
+	 * Get the actor for the member at the given index, `null` if it cannot be
+	 * found.
+	 */
+	async get(index: number): Promise<Actor<any> | null> {
+		const cached = this.resolved[index]
+		if (cached) {
+			return cached.actor
+		}
+
+		const member = this.members[index]
+		const actor = _.isString(member)
+			? await this.stage.actor(member)
+			: new RemoteActor(addressOf(member), this.stage)
+
+		if (!actor) {
+			return null
+		}
+
+		this.resolved[index] = { actor, ref: this.self.monitor(actor) }
+		return actor
+	}
+
+	/**
+	 * Get the actors for every member that can be found.
+	 */
+	async all(): Promise<Actor<any>[]> {
+		return _.compact(await Promise.all(_.range(this.size).map((index) => this.get(index))))
+	}
+
+	/**
+	 * Forget the member monitored with the given reference, returns whether
+	 * there was one.
+	 */
+	forget(ref: string): boolean {
+		const index = this.resolved.findIndex((resolved) => resolved?.ref == ref)
+		if (index < 0) {
+			return false
+		}
+
+		this.resolved[index] = undefined
+		return true
+	}
+
+	/**
+	 * Stop monitoring every member.
+	 */
+	clear(): void {
+		for (const resolved of _.compact(this.resolved)) {
+			this.self.demonitor(resolved.ref)
+		}
+
+		this.resolved = []
+	}
+}
+
+/**
+ * Get a stable identifier for a member.
+ */
+function identify(member: Member): string {
+	return _.isString(member) ? member : addressOf(member).actor
+}
+
+/**
+ * Create a router that sends every message it receives to all the members.
+ */
+export function broadcast<T>(members: Member[]): Spawn<T> {
+	return async function* (self: Actor<T>): AsyncGenerator<undefined, void, T> {
+		const group = new Group(self, members)
+
+		try {
+			while (true) {
+				const msg: T | Signal.Any = yield
+				if (Signal.isDown(msg) && group.forget(msg.ref)) {
+					continue
+				}
+
+				for (const actor of await group.all()) {
+					actor.send(msg).catch(() => {})
+				}
+			}
+		} finally {
+			group.clear()
+		}
+	}
+}
+
+export type ScatterOptions = {
+	/**
+	 * Milliseconds to wait for replies, defaults to 5000.
+	 */
+	timeout?: number
+}
+
+/**
+ * Create a router that sends every request it receives to all the members, and
+ * replies to `from` with the replies that arrived before the deadline; requests
+ * without a `from` are dropped.
+ *
+ * Members reply to the `from` of the request they get, just like with `ask`:
+ *
+ * ```ts
+ * const quotes = stage.spawn(router.scatter(["quote-a", "quote-b"], { timeout: 500 }));
+ * const replies = await quotes.ask({ item: "tea" });
+ * ```
+ */
+export function scatter<T extends { from: Actor<any> | Address }>(
+	members: Member[],
+	options: ScatterOptions = {}
+): Spawn<T> {
+	const timeout = options.timeout ?? 5000
+
+	return async function* (self: Actor<T>): AsyncGenerator<undefined, void, T> {
+		const stage = live()
+		const group = new Group(self, members)
+
+		try {
+			while (true) {
+				const msg: T | Signal.Any = yield
+				if (Signal.isDown(msg) && group.forget(msg.ref)) {
+					continue
+				}
+
+				// There is nobody to reply to without a `from`, so the request is dropped.
+				if (!_.isObject(msg) || !_.isObject((msg as T).from)) {
+					continue
+				}
+
+				const { from, ...request } = msg as T
+				const replies = (await group.all()).map((actor) => actor.ask(request, { timeout }))
+
+				Promise.allSettled(replies).then((results) =>
+					new RemoteActor(addressOf(from), stage)
+						.send(
+							results
+								.filter((result) => result.status == 'fulfilled')
+								.map((result) => (result as PromiseFulfilledResult<any>).value)
+						)
+						.catch(() => {})
+				)
+			}
+		} finally {
+			group.clear()
+		}
+	}
+}
+
+/**
+ * Create a router that sends every message to the member picked by hashing
+ * its key on a ring, so the same key always ends up on the same member and
+ * only the keys of a member that cannot be found move to the next one.
+ */
+export function consistent<T>(members: Member[], key: (msg: T) => string): Spawn<T> {
+	const ring = _.sortBy(
+		members.flatMap((member, index) =>
+			_.range(REPLICAS).map((replica) => ({
+				point: hash(`${identify(member)}#${replica}`),
+				index,
+			}))
+		),
+		(node) => node.point
+	)
+
+	return async function* (self: Actor<T>): AsyncGenerator<undefined, void, T> {
+		const group = new Group(self, members)
+
+		try {
+			while (true) {
+				const msg: T | Signal.Any = yield
+				if (Signal.isDown(msg) && group.forget(msg.ref)) {
+					continue
+				}
+
+				const start = _.sortedIndexBy(ring, { point: hash(key(msg as T)), index: -1 }, 'point')
+				const tried = new Set<number>()
+
+				for (let i = 0; i < ring.length && tried.size < group.size; i++) {
+					const { index } = ring[(start + i) % ring.length]
+					if (tried.has(index)) {
+						continue
+					}
+
+					tried.add(index)
+
+					const actor = await group.get(index)
+					if (actor) {
+						actor.send(msg).catch(() => {})
+						break
+					}
+				}
+			}
+		} finally {
+			group.clear()
+		}
+	}
+}
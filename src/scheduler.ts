@@ -0,0 +1,214 @@
+/**
+ * Where stages get the time, timers and randomness from, and where in-memory
+ * ports queue the delivery of messages.
+ */
+export interface Scheduler {
+	/**
+	 * Current time in milliseconds.
+	 */
+	now(): number
+
+	setTimeout(fn: () => void, ms: number): unknown
+	clearTimeout(timer: unknown): void
+
+	/**
+	 * Let a timer fire without keeping the process running for it, where that
+	 * is a thing.
+	 */
+	unref?(timer: unknown): void
+
+	/**
+	 * Run the function as a task of its own, tasks queued on the same `lane` run
+	 * in the order they were queued.
+	 */
+	queue(fn: () => void, lane?: object): void
+
+	/**
+	 * A random number between 0 (inclusive) and 1 (exclusive).
+	 */
+	random(): number
+}
+
+/**
+ * The scheduler of the environment, with real time.
+ */
+export const realtime: Scheduler = {
+	now: () => Date.now(),
+	setTimeout: (fn, ms) => setTimeout(fn, ms),
+	clearTimeout: (timer) => clearTimeout(timer as ReturnType<typeof setTimeout>),
+	unref: (timer) => (timer as { unref?(): void }).unref?.(),
+	queue: (fn) => setTimeout(fn, 0),
+	random: () => Math.random(),
+}
+
+export type ManualOptions = {
+	/**
+	 * Pick the next task at random among the lanes, from a generator seeded
+	 * with this value; tasks run in the order they were queued otherwise.
+	 */
+	seed?: number
+
+	/**
+	 * The time to start at, defaults to 0.
+	 */
+	start?: number
+}
+
+type Task = {
+	seq: number
+	fn: () => void
+}
+
+type Timer = {
+	seq: number
+	at: number
+	fn: () => void
+}
+
+const DEFAULT = {}
+
+/**
+ * A scheduler that only moves when told to, so tests can control how tasks
+ * interleave and how time passes.
+ *
+ * ```ts
+ * const clock = new scheduler.Manual({ seed: 42 });
+ * const [a, b] = [new Live({ scheduler: clock }), new Live({ scheduler: clock })];
+ * // ...
+ * await clock.settle();
+ * await clock.advance(10000);
+ * ```
+ */
+export class Manual implements Scheduler {
+	private time: number
+	private seq: number
+	private state?: number
+	private lanes: Map<object, Task[]>
+	private timers: Map<number, Timer>
+
+	constructor(options: ManualOptions = {}) {
+		this.time = options.start ?? 0
+		this.seq = 0
+		this.state = options.seed
+		this.lanes = new Map()
+		this.timers = new Map()
+	}
+
+	now(): number {
+		return this.time
+	}
+
+	setTimeout(fn: () => void, ms: number): unknown {
+		const seq = ++this.seq
+		this.timers.set(seq, { seq, at: this.time + Math.max(0, ms), fn })
+
+		return seq
+	}
+
+	clearTimeout(timer: unknown): void {
+		this.timers.delete(timer as number)
+	}
+
+	queue(fn: () => void, lane: object = DEFAULT): void {
+		if (!this.lanes.has(lane)) {
+			this.lanes.set(lane, [])
+		}
+
+		this.lanes.get(lane)!.push({ seq: ++this.seq, fn })
+	}
+
+	/**
+	 * A mulberry32 generator when seeded, `Math.random` otherwise.
+	 */
+	random(): number {
+		if (this.state === undefined) {
+			return Math.random()
+		}
+
+		let t = (this.state = (this.state + 0x6d2b79f5) | 0)
+		t = Math.imul(t ^ (t >>> 15), t | 1)
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+	}
+
+	/**
+	 * Number of tasks waiting to run.
+	 */
+	get size(): number {
+		let size = 0
+		for (const tasks of this.lanes.values()) {
+			size += tasks.length
+		}
+
+		return size
+	}
+
+	/**
+	 * Run the next task, returns whether there was one.
+	 */
+	step(): boolean {
+		const lanes = [...this.lanes.values()].filter((tasks) => tasks.length > 0)
+		if (lanes.length == 0) {
+			return false
+		}
+
+		const lane =
+			this.state === undefined
+				? lanes.reduce((first, tasks) => (tasks[0].seq < first[0].seq ? tasks : first))
+				: lanes[Math.floor(this.random() * lanes.length)]
+
+		lane.shift()!.fn()
+		return true
+	}
+
+	/**
+	 * Run tasks until there are none left, letting promises settle after each
+	 * one; throws if there are still tasks after `limit` of them.
+	 */
+	async settle(limit = 100000): Promise<void> {
+		await tick()
+
+		for (let run = 0; this.step(); run++) {
+			if (run >= limit) {
+				throw new Error(`the scheduler did not settle after ${limit} tasks`)
+			}
+
+			await tick()
+		}
+	}
+
+	/**
+	 * Move time forward, firing timers as they come due and settling after each
+	 * one.
+	 */
+	async advance(ms: number): Promise<void> {
+		const until = this.time + ms
+		await this.settle()
+
+		while (true) {
+			const due = [...this.timers.values()]
+				.filter((timer) => timer.at <= until)
+				.sort((a, b) => a.at - b.at || a.seq - b.seq)[0]
+
+			if (!due) {
+				break
+			}
+
+			this.timers.delete(due.seq)
+			this.time = Math.max(this.time, due.at)
+			due.fn()
+
+			await this.settle()
+		}
+
+		this.time = until
+	}
+}
+
+/**
+ * Wait for every pending promise reaction to run.
+ */
+function tick(): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, 0))
+}
@@ -0,0 +1,300 @@
+import * as _ from 'lodash'
+import { v4 as uuid } from 'uuid'
+import { live, Actor, Address, RemoteActor, Spawn } from './stage'
+
+/**
+ * Messages for the server protocol, sent as plain actor messages.
+ */
+export namespace Message {
+	export type ID = string
+
+	export const enum Type {
+		CALL = 0x40,
+		CAST,
+		REPLY,
+	}
+
+	/**
+	 * A request that expects a reply.
+	 */
+	export type Call = {
+		id: ID
+		type: Type.CALL
+		from: Address
+		name: string
+		args: any[]
+	}
+
+	/**
+	 * Check if the message is a call.
+	 */
+	export function isCall(msg: any): msg is Call {
+		return _.isObject(msg) && msg['type'] == Type.CALL && _.isString(msg['name'])
+	}
+
+	/**
+	 * A fire-and-forget request.
+	 */
+	export type Cast = {
+		type: Type.CAST
+		name: string
+		args: any[]
+	}
+
+	/**
+	 * Check if the message is a cast.
+	 */
+	export function isCast(msg: any): msg is Cast {
+		return _.isObject(msg) && msg['type'] == Type.CAST && _.isString(msg['name'])
+	}
+
+	/**
+	 * The reply to a call, either with the returned value or the thrown error.
+	 */
+	export type Reply = {
+		id: ID
+		type: Type.REPLY
+		value?: any
+		error?: any
+	}
+
+	/**
+	 * Check if the message is a reply.
+	 */
+	export function isReply(msg: any): msg is Reply {
+		return _.isObject(msg) && msg['type'] == Type.REPLY
+	}
+
+	export type Request = Call | Cast
+}
+
+/**
+ * The shape of a server behaviour.
+ *
+ * Handlers are always called with the behaviour itself as `this`, so state can
+ * be kept on it:
+ *
+ * ```ts
+ * class Counter {
+ *   count = 0;
+ *
+ *   call = {
+ *     add: (a: number, b: number) => a + b,
+ *     get: () => this.count,
+ *   };
+ *
+ *   cast = {
+ *     increment: () => { this.count++ },
+ *   };
+ *
+ *   info(msg: unknown) {
+ *     console.log('unexpected', msg);
+ *   }
+ * }
+ * ```
+ */
+export interface Handler {
+	/**
+	 * Requests with a reply, the returned value (or thrown error) is sent back to
+	 * the caller.
+	 */
+	call?: { [name: string]: (...args: any[]) => any }
+
+	/**
+	 * Requests without a reply, a thrown error makes the server exit.
+	 */
+	cast?: { [name: string]: (...args: any[]) => any }
+
+	/**
+	 * Any other message, a thrown error makes the server exit.
+	 */
+	info?(msg: any): any
+}
+
+/**
+ * A handler or a class creating one, the class receives the server actor.
+ */
+export type Behaviour<H extends Handler> = H | { new (self: Actor<any>): H }
+
+/**
+ * The callable side of `call` handlers.
+ */
+export type Calls<H> = H extends { call?: infer C }
+	? {
+			[K in keyof NonNullable<C>]: NonNullable<C>[K] extends (...args: infer A) => infer R
+				? (...args: A) => Promise<Awaited<R>>
+				: never
+	  }
+	: {}
+
+/**
+ * The callable side of `cast` handlers.
+ */
+export type Casts<H> = H extends { cast?: infer C }
+	? {
+			[K in keyof NonNullable<C>]: NonNullable<C>[K] extends (...args: infer A) => any
+				? (...args: A) => void
+				: never
+	  }
+	: {}
+
+/**
+ * A client for a server, usable from any stage.
+ */
+export type Client<H> = {
+	call: Calls<H>
+	cast: Casts<H>
+}
+
+export type Options = {
+	/**
+	 * Register the server under this name.
+	 */
+	name?: string
+}
+
+/**
+ * Create a server from the given behaviour, it can be spawned like any other
+ * actor (and supervised).
+ */
+export function serve<H extends Handler>(behaviour: Behaviour<H>): Spawn<any> {
+	return async function* (self: Actor<any>) {
+		const stage = live()
+		const handler = _.isFunction(behaviour)
+			? new (behaviour as { new (self: Actor<any>): H })(self)
+			: (behaviour as H)
+
+		while (true) {
+			const msg = yield
+
+			if (Message.isCall(msg)) {
+				const reply = <Message.Reply>{ id: msg.id, type: Message.Type.REPLY }
+
+				try {
+					const fn = handler.call?.[msg.name]
+					if (!_.isFunction(fn)) {
+						throw new Error(`unknown call \`${msg.name}\``)
+					}
+
+					reply.value = await fn.apply(handler, msg.args)
+				} catch (err) {
+					reply.error = err
+				}
+
+				// A reply the caller refuses is replaced by the reason, so the call fails
+				// instead of timing out.
+				const caller = new RemoteActor<Message.Reply>(msg.from, stage)
+				caller
+					.send(reply)
+					.catch((error) => caller.send({ id: reply.id, type: reply.type, error }).catch(() => {}))
+			} else if (Message.isCast(msg)) {
+				const fn = handler.cast?.[msg.name]
+				if (!_.isFunction(fn)) {
+					throw new Error(`unknown cast \`${msg.name}\``)
+				}
+
+				await fn.apply(handler, msg.args)
+			} else {
+				await handler.info?.(msg)
+			}
+		}
+	}
+}
+
+/**
+ * Spawn a server on the current stage and return a client for it.
+ */
+export function start<H extends Handler>(
+	behaviour: Behaviour<H>,
+	options: Options = {}
+): Client<H> {
+	const spawn = serve(behaviour)
+	const actor = options.name ? live().register(options.name, spawn) : live().spawn(spawn)
+
+	return client<H>(actor)
+}
+
+/**
+ * Create a client for a server, either from its actor or its name; names are
+ * looked up on the stage the client was created on.
+ *
+ * Calls reject when the server does not reply within `timeout` milliseconds
+ * (5000 by default), or when it exits before replying; casts that cannot be
+ * delivered are dropped.
+ */
+export function client<H>(
+	server: Actor<any> | string,
+	options: { timeout?: number } = {}
+): Client<H> {
+	const timeout = options.timeout ?? 5000
+	const stage = live()
+	let resolved: Promise<Actor<any> | null> | null = null
+
+	const resolve = async (): Promise<Actor<any>> => {
+		if (!_.isString(server)) {
+			return server
+		}
+
+		if (!resolved) {
+			resolved = stage.actor(server)
+		}
+
+		const actor = await resolved
+		if (!actor) {
+			resolved = null
+			throw new Error(`unknown server \`${server}\``)
+		}
+
+		return actor
+	}
+
+	// XXX: Neither proxy must look like a promise, or awaiting it would send a `then`.
+	return {
+		call: new Proxy({} as Calls<H>, {
+			get(_target, name: PropertyKey) {
+				if (!_.isString(name) || name == 'then') {
+					return undefined
+				}
+
+				return async (...args: any[]) => request(await resolve(), name, args, timeout)
+			},
+		}),
+
+		cast: new Proxy({} as Casts<H>, {
+			get(_target, name: PropertyKey) {
+				if (!_.isString(name) || name == 'then') {
+					return undefined
+				}
+
+				// Casts are fire and forget, like `publish` they are dropped when they
+				// cannot be delivered (or the server is unknown).
+				return (...args: any[]) => {
+					resolve()
+						.then((actor) => actor.send(<Message.Cast>{ type: Message.Type.CAST, name, args }))
+						.catch(() => {})
+				}
+			},
+		}),
+	}
+}
+
+/**
+ * Send a call and wait for the reply.
+ */
+async function request(
+	server: Actor<any>,
+	name: string,
+	args: any[],
+	timeout: number
+): Promise<any> {
+	const reply = await server.ask<Message.Reply>(
+		(from) => <Message.Call>{ id: uuid(), type: Message.Type.CALL, from: from.address, name, args },
+		{ timeout }
+	)
+
+	if ('error' in reply) {
+		throw reply.error
+	}
+
+	return reply.value
+}
@@ -1,5 +1,5 @@
 import * as _ from 'lodash'
-import { Channel as Queue } from 'queueable'
+import { Channel as Queue, Deferred } from 'queueable'
 import { v4 as uuid } from 'uuid'
 import * as worker from './worker'
 import * as wire from './wire'
@@ -7,6 +7,13 @@ import { Channel, Sender } from './channel'
 import * as channel from './channel'
 import * as remote from './remote'
 import { Mailbox, Receiver as MailboxReceiver, FilterFn } from './mailbox'
+import { LRU } from './lru'
+import * as metrics from './metrics'
+import * as trace from './trace'
+import { Scheduler, realtime } from './scheduler'
+import * as federation from './federation'
+import * as stream from './stream'
+import { balance, Options as PoolOptions } from './pool'
 
 /**
  * A value that can be used to spawn a new actor.
@@ -38,7 +45,113 @@ import { Mailbox, Receiver as MailboxReceiver, FilterFn } from './mailbox'
  * ```
  */
 export interface Spawn<T> {
-	(self?: Actor<T>): AsyncGenerator<FilterFn<T> | undefined, any, T>
+	(self?: Actor<T>): AsyncGenerator<FilterFn<T> | Receive<T> | undefined, any, T>
+}
+
+const RECEIVE = Symbol('shumei.stage.receive')
+
+/**
+ * The value a generator is resumed with when a receive timed out.
+ */
+export const TIMEOUT = Symbol('shumei.stage.timeout')
+
+/**
+ * A receive with options, created through `receive`.
+ */
+export type Receive<T> = {
+	[RECEIVE]: true
+	filter?: FilterFn<T>
+	timeout?: number
+}
+
+/**
+ * Wait for a message matching the filter (or any message if none is given), for
+ * at most `timeout` milliseconds; the generator is resumed with `TIMEOUT` when
+ * no message arrived in time.
+ *
+ * ```ts
+ * stage.spawn(async function*(self) {
+ *   while (true) {
+ *     const msg = yield receive((msg) => msg.type == 'ping', { timeout: 1000 });
+ *     if (isTimeout(msg)) {
+ *       console.log('nobody pinged me :(');
+ *     }
+ *   }
+ * });
+ * ```
+ */
+export function receive<T>(filter?: FilterFn<T>, options: { timeout?: number } = {}): Receive<T> {
+	return { [RECEIVE]: true, filter, timeout: options.timeout }
+}
+
+/**
+ * Check if the value is a receive with options.
+ */
+export function isReceive<T>(value: any): value is Receive<T> {
+	return _.isObject(value) && !!value[RECEIVE]
+}
+
+/**
+ * Check if a receive timed out.
+ */
+export function isTimeout(value: unknown): value is typeof TIMEOUT {
+	return value === TIMEOUT
+}
+
+/**
+ * What happens to messages sent to an actor whose mailbox is full.
+ */
+export enum Overflow {
+	/**
+	 * The new message is dropped.
+	 */
+	DROP_NEWEST,
+
+	/**
+	 * The oldest message in the mailbox is dropped to make room.
+	 */
+	DROP_OLDEST,
+
+	/**
+	 * The new message is dropped and `send` is rejected.
+	 */
+	REJECT,
+
+	/**
+	 * `send` waits until there is room in the mailbox.
+	 */
+	BLOCK,
+}
+
+/**
+ * Options for spawning an actor.
+ */
+export type Options = {
+	/**
+	 * Reuse the UUID of a dead actor, so that handles to it keep working.
+	 */
+	id?: string
+
+	/**
+	 * Maximum number of messages waiting in the mailbox, at least 1; unbounded
+	 * by default.
+	 */
+	capacity?: number
+
+	/**
+	 * Defaults to `Overflow.DROP_NEWEST`.
+	 */
+	overflow?: Overflow
+}
+
+/**
+ * Options for registering an actor.
+ */
+export type RegisterOptions = Options & {
+	/**
+	 * Register the name across the whole swarm instead of just this stage.
+	 */
+	global?: boolean
 }
 
 /**
@@ -71,284 +184,2074 @@ export interface Actor<T> extends Sender<T> {
 	 * The full handle for this actor.
 	 */
 	address: Address
-}
-
-export enum Link {
-	PARENT,
-	CHILD,
-}
-
-export class Live implements Stage, MailboxReceiver<Message.Any> {
-	id: string
-
-	// FIXME(meh): There will need to be some way to garbage collect dead references;
-	//             consider abusing WeakMap.
-	private isReady: boolean
-	private messages: Queue<Message.Any>
-	private channel: Mailbox<Message.Any>
-
-	private names: Map<string, string>
-	private actors: Map<string, LocalActor<any> | RemoteActor<any>>
-	private stages: Map<string, { as: Link.PARENT | Link.CHILD; instance: Remote }>
-
-	constructor() {
-		this.id = uuid()
 
-		this.names = new Map()
-		this.stages = new Map()
-		this.actors = new Map()
+	/**
+	 * Send a message, resolves once it is in the actor's mailbox, which depends
+	 * on how the mailbox handles overflowing.
+	 */
+	send(msg: T): Promise<void>
 
-		this.isReady = false
-		this.messages = new Queue<Message.Any>()
-		this.channel = new Mailbox(channel.fromQueue<Message.Any>(this.messages))
+	/**
+	 * Link this actor with another one, when either exits the other receives an
+	 * `EXIT` signal.
+	 */
+	link(other: Actor<any> | Address): void
 
-		// FIXME(meh): The way things are designed there might be the need of an LRU
-		//             saving seen packets and dropping them just in case of some broadcast
-		//             spam of messages in cycles.
+	/**
+	 * Remove a link between this actor and another one.
+	 */
+	unlink(other: Actor<any> | Address): void
 
-		// When the worker is dedicated we gotta hook the main worker channel to the stage mailbox.
-		if (worker.isDedicated(self)) {
-			this.link(Link.PARENT, worker.channel<Message.Any>())
-		}
+	/**
+	 * Monitor another actor, when it exits this actor receives a `DOWN` signal.
+	 *
+	 * Returns the reference for the monitor.
+	 */
+	monitor(other: Actor<any> | Address): string
 
-		// When the worker is shared we gotta hook all the incoming channels instead.
-		if (worker.isShared(self)) {
-			;(async () => {
-				for await (const channel of worker.channels<Message.Any>()) {
-					this.link(Link.PARENT, channel)
-				}
-			})()
-		}
-	}
+	/**
+	 * Stop monitoring through the given reference.
+	 */
+	demonitor(ref: string): void
 
 	/**
-	 * Mark the stage as ready, unblocking the worker that created the stage.
+	 * Stop the actor with the given reason.
 	 */
-	ready(parent?: string): void {
-		if (parent) {
-			if (this.isReady) {
-				this.stages.get(parent)!.instance.send({
-					type: Message.Type.STAGE,
-					stage: this.id,
-				})
-			}
+	exit(reason?: any): Promise<void>
 
-			return
-		}
+	/**
+	 * Send a message and wait for the reply.
+	 *
+	 * @see Live.ask
+	 */
+	ask<R = any>(msg: Ask<T, R>, options?: AskOptions): Promise<R>
+}
 
-		if (this.isReady) {
-			return
-		}
+/**
+ * A message for `ask`, either an object that gets the reply address as `from`,
+ * or a function building the message from the reply address.
+ */
+export type Ask<T, R> = Omit<T, 'from'> | ((from: Actor<R>) => T)
 
-		this.isReady = true
+export type AskOptions = {
+	/**
+	 * Milliseconds to wait for the reply, defaults to 5000.
+	 */
+	timeout?: number
+}
 
-		for (const stage of this.stages.values()) {
-			if (stage.as == Link.PARENT) {
-				stage.instance.send({
-					type: Message.Type.STAGE,
-					stage: this.id,
-				})
-			}
-		}
-	}
+/**
+ * A held lock, or leadership.
+ */
+export type Lock = {
+	name: string
 
 	/**
-	 * Link a stage as parent or child.
+	 * Resolved if the lock is taken away without being released, which happens
+	 * when stages that could not see each other join up again and find out they
+	 * both hold it.
 	 */
-	private async link(
-		as: Link.PARENT | Link.CHILD,
-		channel: Channel<Message.Any, any>
-	): Promise<Stage> {
-		channel.wire.codec({
-			name: 'Remote.Value',
+	lost: Promise<void>
 
-			canHandle: (value: unknown): value is remote.Marked => remote.isValue(value),
-
-			encode: (value, wire) => {
-				const id = remote.spawn(value, this.channel as unknown as Mailbox<remote.Message.Any>)
+	/**
+	 * Let go of the lock.
+	 */
+	release(): void
+}
 
-				console.log(id)
+/**
+ * A snapshot of an actor, as seen by its stage.
+ */
+export type ActorInfo = {
+	id: string
 
-				return [{ id }, []]
-			},
+	/**
+	 * Local and global names of the actor.
+	 */
+	names: string[]
 
-			decode: <T>(value, wire): remote.Remote.Value<T> => {
-				return remote.remote(value.id, this.channel as unknown as Mailbox<remote.Message.Any>)
-			},
-		})
+	/**
+	 * Number of messages waiting in the mailbox, including ones that did not
+	 * match a filter yet.
+	 */
+	mailbox: number
 
-		const identify = await channel.recv()
-		if (!Message.isStage(identify)) {
-			throw new Error('the parent is not a stage?')
-		}
+	/**
+	 * Number of pending receives.
+	 */
+	pending: number
 
-		;(async () => {
-			for await (const msg of channel) {
-				this.handle(channel, msg as Message.WhoisActor | Message.Send)
-			}
-		})()
+	dropped: number
+	links: number
+	monitors: number
 
-		const stage = new Remote(identify.stage, channel)
-		this.stages.set(stage.id, { as, instance: stage })
+	/**
+	 * Milliseconds since the actor was spawned.
+	 */
+	uptime: number
+}
 
-		if (as == Link.PARENT) {
-			this.ready(stage.id)
-		}
+/**
+ * A snapshot of a stage.
+ */
+export type StageInfo = {
+	id: string
 
-		return stage
-	}
+	/**
+	 * Milliseconds since the stage was created.
+	 */
+	uptime: number
 
 	/**
-	 * Handle any messages that do not need to be forwarded.
+	 * How every neighbor is linked to the stage.
 	 */
-	private async handle(channel: Sender<Message.Any>, msg: any): Promise<void> {
-		if (Message.isWhoisActor(msg)) {
-			const alias = this.names.get(msg.whois)
-			if (alias) {
-				return channel.send({
-					id: msg.id,
-					type: Message.Type.ACTOR,
-					actor: { actor: alias, stage: this.id },
-				})
-			}
+	links: Record<string, Link>
 
-			const act = this.actors.get(msg.whois)
-			if (act) {
-				return channel.send({
-					id: msg.id,
-					type: Message.Type.ACTOR,
-					actor: act.address,
-				})
-			}
+	/**
+	 * Distance in hops to every other stage reachable through a neighbor.
+	 */
+	routes: Record<string, number>
 
-			// TODO(meh): Ask neighbors.
+	actors: Record<string, ActorInfo>
 
-			return
-		}
+	/**
+	 * The metrics of the process the stage runs in, shared by every stage in it.
+	 */
+	metrics: metrics.Snapshot
 
-		if (Message.isSend(msg)) {
-			// If it's for us, we just handle it.
-			if (msg.to.stage == this.id) {
-				return this.actors.get(msg.to.actor)!.send(msg.message)
-			}
+	/**
+	 * The registry the metrics come from, see `metrics.Registry.id`.
+	 */
+	registry: string
 
-			// If we know the stage we send the message directly to it.
-			if (this.stages.has(msg.to.stage)) {
-				return this.stages.get(msg.to.stage)!.instance.send(msg)
-			}
+	/**
+	 * Spans recorded on the stage, only present when collected by `spans`.
+	 */
+	spans?: trace.Span[]
+}
 
-			// Otherwise we just forward the message to every stage we know except
-			// the one asking us.
-			//
-			// XXX(meh): This is likely going to break with shared workers, need that LRU.
-			for (const stage of this.stages.values()) {
-				if (stage.instance.channel === channel) {
-					continue
-				}
+export type LockOptions = {
+	/**
+	 * Milliseconds to wait for the lock, forever by default.
+	 */
+	timeout?: number
+}
 
-				stage.instance.send(msg)
-			}
+/**
+ * Well known exit reasons, anything else is whatever the generator threw.
+ */
+export namespace Reason {
+	/**
+	 * The generator returned.
+	 */
+	export const NORMAL = 'normal'
 
-			return
-		}
+	/**
+	 * The actor did not exist when it was linked or monitored.
+	 */
+	export const NOPROC = 'noproc'
 
-		this.messages.push(msg)
-	}
+	/**
+	 * The stage hosting the actor went away.
+	 */
+	export const NOCONNECTION = 'noconnection'
 
-	[Symbol.asyncIterator](): AsyncIterator<Message.Any> {
-		return this.channel[Symbol.asyncIterator]()
-	}
+	/**
+	 * The actor was stopped by its supervisor.
+	 */
+	export const SHUTDOWN = 'shutdown'
 
-	async recv(): Promise<Message.Any> {
-		return this.channel.recv()
-	}
+	/**
+	 * The actor was stopped without waiting for its cleanup to finish.
+	 */
+	export const KILL = 'kill'
+}
 
-	async match(pred: FilterFn<Message.Any>): Promise<Message.Any> {
-		return this.channel.match(pred)
+/**
+ * Throw from within an actor to exit with a specific reason.
+ *
+ * ```ts
+ * stage.spawn(async function*(self) {
+ *   const { done } = yield;
+ *   if (done) throw new Exit('finished');
+ * });
+ * ```
+ */
+export class Exit extends Error {
+	constructor(public reason: any = Reason.NORMAL) {
+		super(`actor exited: ${reason}`)
 	}
+}
 
+/**
+ * Signals delivered to the mailbox of linked and monitoring actors.
+ */
+export namespace Signal {
 	/**
-	 * Send a message to every linked stage.
+	 * A linked actor exited.
 	 */
-	send(msg: Message.Any): void {
-		for (const stage of this.stages.values()) {
-			stage.instance.send(msg)
-		}
+	export type Exit = {
+		signal: 'EXIT'
+		from: Address
+		reason: any
 	}
 
 	/**
-	 * Try and get an actor from the swarm.
+	 * Check if the message is an exit signal.
 	 */
-	async actor<T>(id: string): Promise<Actor<T> | null> {
-		let handle: Actor<T>
-
-		if ((handle = this.actors.get(id))) {
-			return handle
-		}
-
-		const request = <Message.WhoisActor>{
-			id: uuid(),
-			type: Message.Type.WHOIS_ACTOR,
-			whois: id,
-		}
-		this.send(request)
-		const response = (await this.channel.match((msg: any) => msg.id == request.id)) as Message.Actor
-
-		handle = new RemoteActor<T>(response.actor!)
-		this.actors.set(id, handle as RemoteActor<unknown>)
-		return handle
+	export function isExit(msg: any): msg is Exit {
+		return _.isObject(msg) && msg['signal'] == 'EXIT'
 	}
 
 	/**
-	 * Spawn a stage as a dedicated worker.
+	 * A monitored actor exited.
 	 */
-	async dedicated(source: URL | string): Promise<Stage> {
-		const dedicated = worker.dedicated<Message.Any>(source)
-		dedicated.send({ type: Message.Type.STAGE, stage: this.id })
-
-		return this.link(Link.CHILD, dedicated)
+	export type Down = {
+		signal: 'DOWN'
+		ref: string
+		actor: Address
+		reason: any
 	}
 
 	/**
-	 * Spawn a stage as a shared worker.
+	 * Check if the message is a down signal.
 	 */
-	async shared(source: URL | string): Promise<Stage> {
-		const shared = worker.shared<Message.Any>(source)
-		shared.send({ type: Message.Type.STAGE, stage: this.id })
-
-		return this.link(Link.CHILD, shared)
+	export function isDown(msg: any): msg is Down {
+		return _.isObject(msg) && msg['signal'] == 'DOWN'
 	}
 
-	/**
+	export type Any = Exit | Down
+}
+
+/**
+ * Get the address out of an actor or an address.
+ */
+export function addressOf(actor: Actor<any> | Address): Address {
+	return 'address' in actor ? actor.address : actor
+}
+
+export enum Link {
+	PARENT,
+	CHILD,
+	PEER,
+}
+
+/**
+ * How long to wait for neighbors to answer a lookup.
+ */
+const LOOKUP_TIMEOUT = 5000
+
+/**
+ * How long to remember a lookup, so that it is answered only once per stage even
+ * when the swarm has cycles.
+ */
+const LOOKUP_MEMORY = 30000
+
+/**
+ * Maximum number of hops a message can travel, stages farther than this are
+ * considered unreachable.
+ */
+const MAX_HOPS = 16
+
+/**
+ * How many routed message ids to remember to drop duplicates.
+ */
+const SEEN_CAPACITY = 4096
+
+/**
+ * Default milliseconds between heartbeats sent to neighbors.
+ */
+const HEARTBEAT_INTERVAL = 1000
+
+/**
+ * Default milliseconds a neighbor can stay silent before it is considered dead.
+ */
+const HEARTBEAT_TIMEOUT = 10000
+
+/**
+ * Milliseconds the other side of a new link has to identify itself.
+ */
+const HANDSHAKE_TIMEOUT = 10000
+
+/**
+ * Maximum milliseconds to wait before claiming a contended lock again.
+ */
+const LOCK_BACKOFF = 250
+
+const received = metrics.counter(
+	'shumei_actor_messages_received_total',
+	'Messages put in the mailbox of an actor.'
+)
+const dropped = metrics.counter(
+	'shumei_actor_messages_dropped_total',
+	'Messages dropped because the mailbox of an actor was full.'
+)
+const sent = metrics.counter(
+	'shumei_actor_messages_sent_total',
+	'Messages sent by an actor, to actors on any stage.'
+)
+const forwarded = metrics.counter(
+	'shumei_routing_forwarded_total',
+	'Routed messages forwarded to other stages.'
+)
+const discarded = metrics.counter('shumei_routing_dropped_total', 'Routed messages dropped.')
+
+/**
+ * Events emitted by a stage about its neighbors.
+ */
+export type Event = 'up' | 'down'
+
+export type LiveOptions = {
+	/**
+	 * Defaults to a random UUID.
+	 */
+	id?: string
+
+	/**
+	 * Where the stage gets the time and timers from, defaults to the real ones.
+	 */
+	scheduler?: Scheduler
+
+	/**
+	 * What spawns the workers of `dedicated` and `shared`, defaults to real
+	 * workers.
+	 */
+	workers?: worker.Factory
+
+	/**
+	 * Hook up to the worker running the stage, if any; only the stage returned by
+	 * `live()` does this by default.
+	 */
+	hook?: boolean
+}
+
+export class Live implements Stage, MailboxReceiver<Message.Any> {
+	id: string
+	scheduler: Scheduler
+
+	/**
+	 * The wire every channel to a neighbor uses, actors decoded from it belong to
+	 * this stage.
+	 */
+	wire: wire.Wire
+
+	private workers: worker.Factory
+
+	private isReady: boolean
+	private started: number
+	private messages: Queue<Message.Any>
+	private channel: Mailbox<Message.Any>
+
+	private names: Map<string, string>
+	private globals: Map<string, Address>
+	private groups: Map<string, Map<string, Address>>
+	private holders: Map<string, Message.Holder>
+	private owned: Map<string, Deferred<void>>
+	private contenders: Map<string, Set<() => void>>
+	private lookups: Set<string>
+	private awaiting: Set<string>
+	private actors: Map<string, LocalActor<any>>
+	private stages: Map<string, { as: Link; instance: Remote }>
+	private pending: Remote[]
+	private tables: Map<string, Map<string, number>>
+	private routes: Map<string, { via: Remote; hops: number }>
+	private seen: LRU<string>
+	private heard: Map<string, number>
+	private heartbeats: { interval: number; timeout: number; timer?: any }
+	private listeners: Record<Event, Set<(stage: Remote) => void>>
+	private monitoring: Map<string, { watcher: Address; target: Address }>
+	private deliveries: Map<string, { stage: string; delivered: Deferred<number | undefined> }>
+
+	constructor(options: LiveOptions = {}) {
+		this.id = options.id ?? uuid()
+		this.scheduler = options.scheduler ?? realtime
+		this.workers = options.workers ?? worker.factory
+		this.wire = new wire.Wire()
+		this.wire.codec({
+			name: 'Actor<T>',
+			canHandle: <T>(value: any): value is Actor<T> =>
+				_.isObject(value) && _.isObject(value['address']) && _.isFunction(value['send']),
+			encode: <T>(value: Actor<T>) => [value.address, []],
+			decode: <T>(value: Address): Actor<T> => new RemoteActor(value, this),
+		})
+
+		trace.live().stage ||= this.id
+
+		this.names = new Map()
+		this.globals = new Map()
+		this.groups = new Map()
+		this.holders = new Map()
+		this.owned = new Map()
+		this.contenders = new Map()
+		this.lookups = new Set()
+		this.awaiting = new Set()
+		this.stages = new Map()
+		this.pending = []
+		this.tables = new Map()
+		this.routes = new Map()
+		this.seen = new LRU(SEEN_CAPACITY)
+		this.heard = new Map()
+		this.heartbeats = { interval: HEARTBEAT_INTERVAL, timeout: HEARTBEAT_TIMEOUT }
+		this.listeners = { up: new Set(), down: new Set() }
+		this.actors = new Map()
+		this.monitoring = new Map()
+		this.deliveries = new Map()
+
+		this.isReady = false
+		this.started = this.scheduler.now()
+		this.messages = new Queue<Message.Any>()
+		this.channel = new Mailbox(channel.fromQueue<Message.Any>(this.messages))
+
+		if (!options.hook) {
+			return
+		}
+
+		// When the worker is dedicated (or a Node thread) we gotta hook the main worker channel
+		// to the stage mailbox.
+		if (worker.isDedicated(globalThis) || worker.isThread()) {
+			this.attach(Link.PARENT, worker.channel<Message.Any>())
+		}
+
+		// When the worker is shared we gotta hook all the incoming channels instead.
+		if (worker.isShared(globalThis)) {
+			;(async () => {
+				for await (const channel of worker.channels<Message.Any>()) {
+					this.attach(Link.PARENT, channel)
+				}
+			})()
+		}
+	}
+
+	/**
+	 * Run a function with this stage as the current one, so `live()` returns it;
+	 * only the synchronous part of the function sees it.
+	 */
+	run<T>(fn: () => T): T {
+		const previous = current
+		current = this
+
+		try {
+			return fn()
+		} finally {
+			current = previous
+		}
+	}
+
+	/**
+	 * Mark the stage as ready, unblocking the worker that created the stage.
+	 */
+	ready(): void {
+		if (this.isReady) {
+			return
+		}
+
+		this.isReady = true
+
+		for (const stage of this.pending) {
+			this.welcome(Link.PARENT, stage)
+		}
+
+		this.pending = []
+	}
+
+	/**
+	 * Start talking to a linked stage, parents are identified to only once the
+	 * stage is ready, and nothing can be sent to them before that.
+	 */
+	private welcome(as: Link, stage: Remote): void {
+		this.stages.set(stage.id, { as, instance: stage })
+
+		if (as == Link.PARENT) {
+			stage.send({
+				type: Message.Type.STAGE,
+				stage: this.id,
+			})
+		}
+
+		this.announce(stage)
+		this.recompute(true)
+
+		this.heard.set(stage.id, this.scheduler.now())
+		this.pulse()
+		this.emit('up', stage)
+	}
+
+	/**
+	 * Change how often neighbors are sent a heartbeat, and how long they can stay
+	 * silent before being considered dead; a timeout of `Infinity` disables
+	 * failure detection.
+	 */
+	heartbeat(interval: number, timeout: number): void {
+		this.scheduler.clearTimeout(this.heartbeats.timer)
+		this.heartbeats = { interval, timeout }
+		this.pulse()
+	}
+
+	/**
+	 * Start sending heartbeats if there is anybody to send them to, and detach
+	 * neighbors that have been silent for too long.
+	 */
+	private pulse(): void {
+		if (this.heartbeats.timer || this.heartbeats.timeout == Infinity) {
+			return
+		}
+
+		this.heartbeats.timer = this.scheduler.setTimeout(() => {
+			this.heartbeats.timer = undefined
+			if (this.stages.size == 0) {
+				return
+			}
+
+			const now = this.scheduler.now()
+			for (const { instance } of [...this.stages.values()]) {
+				if (now - (this.heard.get(instance.id) ?? now) > this.heartbeats.timeout) {
+					instance.channel.close?.()
+					this.detach(instance)
+				} else {
+					instance.send({ type: Message.Type.HEARTBEAT, stage: this.id })
+				}
+			}
+
+			this.pulse()
+		}, this.heartbeats.interval)
+
+		// Heartbeats alone do not keep the process running, neighbors do if they need to.
+		this.scheduler.unref?.(this.heartbeats.timer)
+	}
+
+	/**
+	 * Close the stage: heartbeats stop, and every neighbor is closed and
+	 * forgotten like a dead one; actors on the stage keep running.
+	 */
+	close(): void {
+		this.scheduler.clearTimeout(this.heartbeats.timer)
+		this.heartbeats.timer = undefined
+
+		for (const stage of this.pending.splice(0)) {
+			stage.channel.close?.()
+		}
+
+		for (const { instance } of [...this.stages.values()]) {
+			instance.channel.close?.()
+			this.detach(instance)
+		}
+	}
+
+	/**
+	 * Listen for neighbors joining (`up`) or going away (`down`), returns a
+	 * function that removes the listener.
+	 *
+	 * ```ts
+	 * stage.on('down', async (dead) => {
+	 *   if (dead.id == worker.id) {
+	 *     worker = await stage.dedicated(WORKER);
+	 *   }
+	 * });
+	 * ```
+	 */
+	on(event: Event, listener: (stage: Remote) => void): () => void {
+		this.listeners[event].add(listener)
+		return () => this.listeners[event].delete(listener)
+	}
+
+	private emit(event: Event, stage: Remote): void {
+		for (const listener of this.listeners[event]) {
+			listener(stage)
+		}
+	}
+
+	/**
+	 * Tell a stage about the global names and group members we know.
+	 */
+	private announce(stage: Remote): void {
+		for (const [name, actor] of this.globals) {
+			stage.send({ type: Message.Type.REGISTER, name, actor })
+		}
+
+		for (const [group, members] of this.groups) {
+			for (const actor of members.values()) {
+				stage.send({ type: Message.Type.JOIN, group, actor })
+			}
+		}
+
+		for (const [name, holder] of this.holders) {
+			stage.send({ type: Message.Type.HOLD, name, holder })
+		}
+	}
+
+	/**
+	 * Attach a stage as parent or child, the channel switches to the wire of this
+	 * stage; the other side has to identify itself first (see `memory.link`), and
+	 * the channel is closed when it does not in time.
+	 */
+	async attach(as: Link, channel: Channel<Message.Any, any>): Promise<Stage> {
+		channel.wire = this.wire
+		channel.wire.codec({
+			name: 'Remote.Value',
+
+			canHandle: (value: unknown): value is remote.Marked => remote.isValue(value),
+
+			encode: (value, wire) => {
+				const id = remote.spawn(value, this.channel as unknown as Mailbox<remote.Message.Any>)
+
+				console.log(id)
+
+				return [{ id }, []]
+			},
+
+			decode: <T>(value, wire): remote.Remote.Value<T> => {
+				return remote.remote(value.id, this.channel as unknown as Mailbox<remote.Message.Any>)
+			},
+		})
+
+		// A side that never identifies itself would hold on to the channel forever.
+		let expired = false
+		const timer = this.scheduler.setTimeout(() => {
+			expired = true
+			channel.close()
+		}, HANDSHAKE_TIMEOUT)
+
+		const identify = await channel.recv().finally(() => this.scheduler.clearTimeout(timer))
+		if (expired) {
+			throw new Error('the other side did not identify itself in time')
+		}
+
+		if (!Message.isMessage(identify) || !Message.isStage(identify)) {
+			channel.close()
+			throw new Error('the parent is not a stage?')
+		}
+
+		const stage = new Remote(identify.stage, channel)
+		;(async () => {
+			for await (const msg of channel) {
+				// Neighbors are not trusted to send well-formed messages, anything else
+				// is dropped, and messages failing to be handled do not stop the others.
+				if (!Message.isMessage(msg)) {
+					continue
+				}
+
+				this.heard.set(stage.id, this.scheduler.now())
+				this.handle(channel, msg).catch(() => {})
+			}
+
+			this.detach(stage)
+		})()
+
+		if (as == Link.PARENT && !this.isReady) {
+			this.pending.push(stage)
+		} else {
+			this.welcome(as, stage)
+		}
+
+		return stage
+	}
+
+	/**
+	 * Forget about a stage that went away, any actor linked to or monitoring actors
+	 * on that stage gets signaled.
+	 */
+	private detach(stage: Remote): void {
+		_.pull(this.pending, stage)
+
+		if (this.stages.get(stage.id)?.instance !== stage) {
+			return
+		}
+
+		// Every stage we could only reach through this one is gone as well.
+		const lost = new Set([stage.id])
+		for (const [id, route] of this.routes) {
+			if (route.via === stage) {
+				lost.add(id)
+			}
+		}
+
+		this.stages.delete(stage.id)
+		this.tables.delete(stage.id)
+		this.heard.delete(stage.id)
+		this.recompute()
+
+		for (const [name, actor] of this.globals) {
+			if (lost.has(actor.stage)) {
+				this.unbind(name, actor)
+			}
+		}
+
+		for (const [group, members] of this.groups) {
+			for (const actor of members.values()) {
+				if (lost.has(actor.stage)) {
+					this.exclude(group, actor)
+				}
+			}
+		}
+
+		// The leases of locks held by lost stages expire, stages farther away might
+		// not notice the loss so they are told.
+		for (const [name, holder] of this.holders) {
+			if (lost.has(holder.stage)) {
+				this.unlock({ id: uuid(), type: Message.Type.RELEASE, name, holder })
+			}
+		}
+
+		for (const act of this.actors.values()) {
+			for (const link of act.links.values()) {
+				if (lost.has(link.stage)) {
+					this.route(<Message.Exit>{
+						id: uuid(),
+						type: Message.Type.EXIT,
+						from: link,
+						to: act.address,
+						reason: Reason.NOCONNECTION,
+					})
+				}
+			}
+		}
+
+		// Messages on their way to a lost stage are lost as well.
+		for (const [id, { stage, delivered }] of this.deliveries) {
+			if (lost.has(stage)) {
+				this.deliveries.delete(id)
+				delivered.resolve(undefined)
+			}
+		}
+
+		for (const [ref, { watcher, target }] of this.monitoring) {
+			if (lost.has(target.stage)) {
+				this.route(<Message.Down>{
+					id: uuid(),
+					type: Message.Type.DOWN,
+					ref,
+					from: target,
+					to: watcher,
+					reason: Reason.NOCONNECTION,
+				})
+			}
+		}
+
+		this.emit('down', stage)
+	}
+
+	/**
+	 * Handle any messages that do not need to be forwarded.
+	 */
+	private async handle(channel: Sender<Message.Any>, msg: any): Promise<void> {
+		if (Message.isHeartbeat(msg)) {
+			return
+		}
+
+		if (Message.isWhoisActor(msg)) {
+			return channel.send({
+				id: msg.id,
+				type: Message.Type.ACTOR,
+				actor: await this.whois(msg, channel),
+			})
+		}
+
+		if (Message.isRoutes(msg)) {
+			return this.learn(msg)
+		}
+
+		if (Message.isRegister(msg)) {
+			return this.bind(msg.name, msg.actor, channel)
+		}
+
+		if (Message.isUnregister(msg)) {
+			return this.unbind(msg.name, msg.actor, channel)
+		}
+
+		if (Message.isJoin(msg)) {
+			return this.enter(msg.group, msg.actor, channel)
+		}
+
+		if (Message.isLeave(msg)) {
+			return this.exclude(msg.group, msg.actor, channel)
+		}
+
+		if (Message.isClaim(msg)) {
+			return this.vote(msg, channel)
+		}
+
+		if (Message.isHold(msg)) {
+			return this.hold(msg.name, msg.holder, channel)
+		}
+
+		if (Message.isRelease(msg)) {
+			return this.unlock(msg, channel)
+		}
+
+		if (Message.isRouted(msg)) {
+			return this.route(msg, channel)
+		}
+
+		// Answers nobody is waiting for anymore would stay in the mailbox forever.
+		if (Message.isActor(msg) && !this.awaiting.has(msg.id)) {
+			return
+		}
+
+		this.messages.push(msg)
+	}
+
+	/**
+	 * Find an actor by name or UUID on this stage or among global names.
+	 */
+	private lookup(id: string): Address | null {
+		const local = this.actors.get(this.names.get(id) ?? id)
+		if (local) {
+			return local.address
+		}
+
+		return this.globals.get(id) ?? null
+	}
+
+	/**
+	 * Answer a lookup, asking every neighbor except the one the request came
+	 * from when the actor is not known here.
+	 */
+	private async whois(
+		request: Message.WhoisActor,
+		channel?: Sender<Message.Any>
+	): Promise<Address | null> {
+		const found = this.lookup(request.whois)
+		if (found) {
+			return found
+		}
+
+		// Somebody else is already asking around for this, possibly us.
+		if (this.lookups.has(request.id)) {
+			return null
+		}
+
+		this.lookups.add(request.id)
+		this.scheduler.setTimeout(() => this.lookups.delete(request.id), LOOKUP_MEMORY)
+
+		const neighbors = [...this.stages.values()].filter(
+			(stage) => stage.instance.channel !== channel
+		)
+
+		this.awaiting.add(request.id)
+		for (const stage of neighbors) {
+			stage.instance.send(request)
+		}
+
+		// Every neighbor answers, either with the address or with `null`; the first
+		// address wins, but the other answers still have to be taken out of the mailbox.
+		const result = new Deferred<Address | null>()
+		const controller = new AbortController()
+		const timer = this.scheduler.setTimeout(() => controller.abort(), LOOKUP_TIMEOUT)
+
+		;(async () => {
+			try {
+				for (let pending = neighbors.length; pending > 0; pending--) {
+					const response = (await this.channel.match(
+						(msg) => Message.isActor(msg) && msg.id == request.id,
+						controller.signal
+					)) as Message.Actor
+
+					if (response.actor) {
+						result.resolve(response.actor)
+					}
+				}
+			} catch (err) {
+				// Some neighbor did not answer in time.
+			} finally {
+				this.awaiting.delete(request.id)
+				this.scheduler.clearTimeout(timer)
+				result.resolve(null)
+			}
+		})()
+
+		return result.promise
+	}
+
+	/**
+	 * Ask a single neighbor to fully qualify an actor.
+	 */
+	private async query(stage: Stage, id: string): Promise<Address | null> {
+		const neighbor = this.stages.get(stage.id)?.instance
+		if (!neighbor) {
+			return null
+		}
+
+		const request = <Message.WhoisActor>{ id: uuid(), type: Message.Type.WHOIS_ACTOR, whois: id }
+		const controller = new AbortController()
+		const timer = this.scheduler.setTimeout(() => controller.abort(), LOOKUP_TIMEOUT)
+
+		try {
+			this.awaiting.add(request.id)
+			neighbor.send(request)
+
+			const response = (await this.channel.match(
+				(msg) => Message.isActor(msg) && msg.id == request.id,
+				controller.signal
+			)) as Message.Actor
+
+			return response.actor
+		} catch (err) {
+			return null
+		} finally {
+			this.awaiting.delete(request.id)
+			this.scheduler.clearTimeout(timer)
+		}
+	}
+
+	/**
+	 * Bind a global name, when two actors are registered under the same name the
+	 * one with the lowest UUID wins on every stage.
+	 */
+	private bind(name: string, actor: Address, channel?: Sender<Message.Any>): void {
+		const current = this.globals.get(name)
+		if (current && current.actor <= actor.actor) {
+			return
+		}
+
+		this.globals.set(name, actor)
+		this.flood({ type: Message.Type.REGISTER, name, actor }, channel)
+	}
+
+	/**
+	 * Unbind a global name, if it is still bound to the given actor.
+	 */
+	private unbind(name: string, actor: Address, channel?: Sender<Message.Any>): void {
+		if (this.globals.get(name)?.actor != actor.actor) {
+			return
+		}
+
+		this.globals.delete(name)
+		this.flood({ type: Message.Type.UNREGISTER, name, actor }, channel)
+	}
+
+	/**
+	 * Add an actor to a group, forwarded to every stage.
+	 */
+	private enter(group: string, actor: Address, channel?: Sender<Message.Any>): void {
+		// The actor died before the news reached its own stage, so everybody else
+		// has to forget about it too.
+		if (actor.stage == this.id && !this.actors.get(actor.actor)?.alive) {
+			this.groups.get(group)?.delete(actor.actor)
+			this.flood({ type: Message.Type.LEAVE, group, actor })
+			return
+		}
+
+		const members = this.groups.get(group) ?? new Map<string, Address>()
+		if (members.has(actor.actor)) {
+			return
+		}
+
+		members.set(actor.actor, actor)
+		this.groups.set(group, members)
+		this.flood({ type: Message.Type.JOIN, group, actor }, channel)
+	}
+
+	/**
+	 * Remove an actor from a group, forwarded to every stage.
+	 */
+	private exclude(group: string, actor: Address, channel?: Sender<Message.Any>): void {
+		const members = this.groups.get(group)
+		if (!members?.delete(actor.actor)) {
+			return
+		}
+
+		if (members.size == 0) {
+			this.groups.delete(group)
+		}
+
+		this.flood({ type: Message.Type.LEAVE, group, actor }, channel)
+	}
+
+	/**
+	 * Try to take a lock, every reachable stage votes on the claim and it only
+	 * succeeds if all of them grant it.
+	 */
+	private async claim(name: string, holder: Message.Holder): Promise<boolean> {
+		if (this.holders.has(name)) {
+			return false
+		}
+
+		this.holders.set(name, holder)
+
+		const voters = new Set([...this.stages.keys(), ...this.routes.keys()])
+		const claim = <Message.Claim>{ id: uuid(), type: Message.Type.CLAIM, name, holder }
+		const controller = new AbortController()
+		const timer = this.scheduler.setTimeout(() => controller.abort(), LOOKUP_TIMEOUT)
+
+		this.seen.add(claim.id)
+		this.awaiting.add(claim.id)
+		this.flood(claim)
+
+		try {
+			while (voters.size > 0) {
+				const vote = (await this.channel.match(
+					(msg) => Message.isVote(msg) && msg.claim == claim.id,
+					controller.signal
+				)) as Message.Vote
+
+				if (!vote.granted) {
+					throw new Error(`the lock \`${name}\` is held elsewhere`)
+				}
+
+				voters.delete(vote.stage)
+			}
+
+			return true
+		} catch (err) {
+			this.unlock({ id: uuid(), type: Message.Type.RELEASE, name, holder })
+			return false
+		} finally {
+			this.awaiting.delete(claim.id)
+			this.scheduler.clearTimeout(timer)
+		}
+	}
+
+	/**
+	 * Vote on somebody else's claim, and pass it on.
+	 */
+	private vote(msg: Message.Claim, channel?: Sender<Message.Any>): void {
+		if (this.seen.has(msg.id)) {
+			return
+		}
+
+		this.seen.add(msg.id)
+
+		const current = this.holders.get(msg.name)
+		const granted = !current || current.token == msg.holder.token
+		if (granted) {
+			this.holders.set(msg.name, msg.holder)
+		}
+
+		this.route(<Message.Vote>{
+			id: uuid(),
+			type: Message.Type.VOTE,
+			to: { stage: msg.holder.stage, actor: '' },
+			claim: msg.id,
+			stage: this.id,
+			granted,
+		})
+
+		this.flood(msg, channel)
+	}
+
+	/**
+	 * Learn about a lock holder from a stage that just joined, when both sides
+	 * had a holder the lowest token wins.
+	 */
+	private hold(name: string, holder: Message.Holder, channel?: Sender<Message.Any>): void {
+		const current = this.holders.get(name)
+		if (current && current.token <= holder.token) {
+			return
+		}
+
+		if (current) {
+			this.owned.get(current.token)?.resolve()
+			this.owned.delete(current.token)
+		}
+
+		this.holders.set(name, holder)
+		this.flood({ type: Message.Type.HOLD, name, holder }, channel)
+	}
+
+	/**
+	 * Release a lock, forwarded to every stage.
+	 */
+	private unlock(msg: Message.Release, channel?: Sender<Message.Any>): void {
+		if (this.seen.has(msg.id)) {
+			return
+		}
+
+		this.seen.add(msg.id)
+
+		if (this.holders.get(msg.name)?.token == msg.holder.token) {
+			this.holders.delete(msg.name)
+			this.contend(msg.name)
+		}
+
+		this.flood(msg, channel)
+	}
+
+	/**
+	 * Wake up anybody waiting to claim a lock.
+	 */
+	private contend(name: string): void {
+		for (const wake of this.contenders.get(name) ?? []) {
+			wake()
+		}
+	}
+
+	/**
+	 * Send a message to every linked stage except the one it came from.
+	 */
+	private flood(msg: Message.Any, channel?: Sender<Message.Any>): void {
+		for (const stage of this.stages.values()) {
+			if (stage.instance.channel !== channel) {
+				stage.instance.send(msg)
+			}
+		}
+	}
+
+	/**
+	 * Learn the routes a neighbor advertised.
+	 */
+	private learn(msg: Message.Routes): void {
+		if (!this.stages.has(msg.stage)) {
+			return
+		}
+
+		this.tables.set(msg.stage, new Map(Object.entries(msg.routes)))
+		this.recompute()
+	}
+
+	/**
+	 * Recompute the shortest routes from what neighbors advertised, and advertise
+	 * them in turn if anything changed.
+	 */
+	private recompute(force = false): void {
+		const routes = new Map<string, { via: Remote; hops: number }>()
+
+		for (const [neighbor, table] of this.tables) {
+			const via = this.stages.get(neighbor)?.instance
+			if (!via) {
+				continue
+			}
+
+			for (const [id, distance] of table) {
+				const hops = distance + 1
+				if (id == this.id || this.stages.has(id) || hops > MAX_HOPS) {
+					continue
+				}
+
+				if (!routes.has(id) || hops < routes.get(id)!.hops) {
+					routes.set(id, { via, hops })
+				}
+			}
+		}
+
+		const changed =
+			routes.size != this.routes.size ||
+			[...routes].some(([id, route]) => {
+				const current = this.routes.get(id)
+				return current?.via !== route.via || current.hops != route.hops
+			})
+
+		this.routes = routes
+
+		if (changed || force) {
+			this.advertise()
+		}
+	}
+
+	/**
+	 * Tell every neighbor which stages can be reached through us, leaving out the
+	 * ones reached through that same neighbor.
+	 */
+	private advertise(): void {
+		for (const [neighbor, { instance }] of this.stages) {
+			const routes: Record<string, number> = {}
+
+			for (const id of this.stages.keys()) {
+				if (id != neighbor) {
+					routes[id] = 1
+				}
+			}
+
+			for (const [id, route] of this.routes) {
+				if (route.via !== instance) {
+					routes[id] = route.hops
+				}
+			}
+
+			instance.send({ type: Message.Type.ROUTES, stage: this.id, routes })
+		}
+	}
+
+	/**
+	 * Route a message towards the stage hosting its recipient.
+	 *
+	 * Messages travel along the shortest known route, or to every other stage
+	 * when the recipient's stage is unknown; either way they are dropped once
+	 * their TTL runs out or if they have been seen already.
+	 */
+	route(msg: Message.Routed, channel?: Sender<Message.Any>): void {
+		if (this.seen.has(msg.id)) {
+			discarded.inc({ reason: 'duplicate' })
+			return
+		}
+
+		this.seen.add(msg.id)
+
+		// If it's for us, we just handle it.
+		if (msg.to.stage == this.id) {
+			return this.dispatch(msg)
+		}
+
+		const ttl = msg.ttl ?? MAX_HOPS
+		if (ttl <= 0) {
+			discarded.inc({ reason: 'ttl' })
+			return
+		}
+
+		const forward = { ...msg, ttl: ttl - 1 }
+		const via = this.stages.get(msg.to.stage)?.instance ?? this.routes.get(msg.to.stage)?.via
+
+		// Traced messages passing through carry the hop along, so the next one is its child.
+		if (channel && Message.isSend(forward) && forward.trace) {
+			const span = trace.live().start(
+				'forward',
+				'forward',
+				forward.trace,
+				{
+					'shumei.actor': msg.to.actor,
+					'shumei.stage': msg.to.stage,
+					'shumei.via': via ? 'route' : 'flood',
+					'shumei.ttl': ttl,
+				},
+				this.id
+			)
+
+			forward.trace = span?.context ?? forward.trace
+			span?.end()
+		}
+
+		// If we know how to get to the stage we send the message along that way.
+		if (via) {
+			forwarded.inc({ via: 'route' })
+			return via.send(forward)
+		}
+
+		// Otherwise we just forward the message to every stage we know except
+		// the one asking us.
+		forwarded.inc({ via: 'flood' })
+		this.flood(forward, channel)
+	}
+
+	/**
+	 * Send a message to an actor on another stage, resolves with the size of the
+	 * actor's mailbox once the message is in it, or rejects if the mailbox refused
+	 * it.
+	 *
+	 * When the actor's stage is unreachable the message is sent anyway, but
+	 * nobody will ever tell whether it was delivered.
+	 *
+	 * When tracing, the send is a child of the current span and ends once the
+	 * message is delivered.
+	 */
+	async deliver(to: Address, message: any): Promise<number | undefined> {
+		const tracer = trace.live()
+		const span = tracer.start(
+			'send',
+			'send',
+			tracer.current,
+			{
+				'shumei.actor': to.actor,
+				'shumei.stage': to.stage,
+			},
+			this.id
+		)
+
+		const msg = <Message.Send>{
+			id: uuid(),
+			type: Message.Type.SEND,
+			to,
+			message,
+			trace: span?.context ?? tracer.current,
+		}
+
+		if (acting) {
+			sent.inc({ actor: acting })
+		}
+
+		if (!this.stages.has(to.stage) && !this.routes.has(to.stage)) {
+			this.route(msg)
+			span?.end()
+			return undefined
+		}
+
+		const delivered = new Deferred<number | undefined>()
+		this.deliveries.set(msg.id, { stage: to.stage, delivered })
+		this.route({ ...msg, from: this.id })
+
+		delivered.promise.then(
+			() => span?.end(),
+			(error) => span?.end({ 'shumei.error': String(error?.message ?? error) })
+		)
+
+		return delivered.promise
+	}
+
+	/**
+	 * Handle a routed message meant for an actor on this stage.
+	 */
+	private dispatch(msg: Message.Routed): void {
+		const act = this.actors.get(msg.to.actor)
+		const local = act?.alive ? act : null
+
+		switch (msg.type) {
+			case Message.Type.SEND: {
+				const span = trace.live().start(
+					'receive',
+					'receive',
+					msg.trace,
+					{
+						'shumei.actor': msg.to.actor,
+					},
+					this.id
+				)
+
+				// Messages with instances of classes unknown here are refused, so the sender
+				// finds out.
+				const missing = wire.unregistered(msg.message)
+				const refused = missing
+					? new Error(`the class \`${missing.name}\` is not registered on the stage \`${this.id}\``)
+					: undefined
+
+				const sent = refused
+					? Promise.reject(refused)
+					: act
+					? act.send(msg.message, span?.context ?? msg.trace)
+					: Promise.resolve()
+				sent.then(
+					() => span?.end({ 'shumei.delivered': !!act }),
+					(error) => span?.end({ 'shumei.error': String(error?.message ?? error) })
+				)
+
+				if (msg.from) {
+					const delivered = <Message.Delivered>{
+						id: uuid(),
+						type: Message.Type.DELIVERED,
+						to: { stage: msg.from, actor: '' },
+						send: msg.id,
+					}
+
+					sent.then(
+						() => this.route({ ...delivered, size: act?.size }),
+						(error) => this.route({ ...delivered, error })
+					)
+				}
+				break
+			}
+
+			case Message.Type.DELIVERED: {
+				const delivery = this.deliveries.get(msg.send)
+				this.deliveries.delete(msg.send)
+
+				if (msg.error) {
+					delivery?.delivered.reject(msg.error)
+				} else {
+					delivery?.delivered.resolve(msg.size)
+				}
+				break
+			}
+
+			case Message.Type.VOTE:
+				// Votes on a claim already decided would stay in the mailbox forever.
+				if (this.awaiting.has(msg.claim)) {
+					this.messages.push(msg)
+				}
+				break
+
+			case Message.Type.REPORT:
+				this.messages.push(msg)
+				break
+
+			case Message.Type.INSPECT:
+				this.route(<Message.Report>{
+					id: uuid(),
+					type: Message.Type.REPORT,
+					to: { stage: msg.from, actor: '' },
+					request: msg.id,
+					info: this.report(msg.spans),
+				})
+				break
+
+			case Message.Type.LINK:
+				if (!local) {
+					return this.route(<Message.Exit>{
+						id: uuid(),
+						type: Message.Type.EXIT,
+						from: msg.to,
+						to: msg.from,
+						reason: Reason.NOPROC,
+					})
+				}
+
+				local.links.set(msg.from.actor, msg.from)
+				break
+
+			case Message.Type.UNLINK:
+				local?.links.delete(msg.from.actor)
+				break
+
+			case Message.Type.MONITOR:
+				if (!local) {
+					return this.route(<Message.Down>{
+						id: uuid(),
+						type: Message.Type.DOWN,
+						ref: msg.ref,
+						from: msg.to,
+						to: msg.from,
+						reason: Reason.NOPROC,
+					})
+				}
+
+				local.monitors.set(msg.ref, msg.from)
+				break
+
+			case Message.Type.DEMONITOR:
+				local?.monitors.delete(msg.ref)
+				break
+
+			case Message.Type.EXIT:
+				if (local?.links.delete(msg.from.actor)) {
+					local.send(<Signal.Exit>{ signal: 'EXIT', from: msg.from, reason: msg.reason })
+				}
+				break
+
+			case Message.Type.DOWN:
+				this.monitoring.delete(msg.ref)
+				local?.send(<Signal.Down>{
+					signal: 'DOWN',
+					ref: msg.ref,
+					actor: msg.from,
+					reason: msg.reason,
+				})
+				break
+
+			case Message.Type.TERMINATE:
+				local?.exit(msg.reason)
+				break
+		}
+	}
+
+	/**
+	 * Notify linked and monitoring actors that a local actor exited.
+	 */
+	private down(act: LocalActor<any>, reason: any): void {
+		const id = act.address.actor
+
+		// A restarted actor might have already taken the place of the dead one.
+		if (this.actors.get(id) === act) {
+			this.actors.delete(id)
+			received.remove({ actor: id })
+			dropped.remove({ actor: id })
+			sent.remove({ actor: id })
+
+			for (const [name, alias] of this.names) {
+				if (alias == id) {
+					this.names.delete(name)
+				}
+			}
+
+			for (const [name, actor] of this.globals) {
+				if (actor.actor == id) {
+					this.unbind(name, actor)
+				}
+			}
+		}
+
+		for (const [group, members] of this.groups) {
+			const member = members.get(id)
+			if (member) {
+				this.exclude(group, member)
+			}
+		}
+
+		for (const link of act.links.values()) {
+			this.route(<Message.Exit>{
+				id: uuid(),
+				type: Message.Type.EXIT,
+				from: act.address,
+				to: link,
+				reason,
+			})
+		}
+
+		for (const [ref, watcher] of act.monitors) {
+			this.route(<Message.Down>{
+				id: uuid(),
+				type: Message.Type.DOWN,
+				ref,
+				from: act.address,
+				to: watcher,
+				reason,
+			})
+		}
+
+		act.links.clear()
+		act.monitors.clear()
+	}
+
+	[Symbol.asyncIterator](): AsyncIterator<Message.Any> {
+		return this.channel[Symbol.asyncIterator]()
+	}
+
+	async recv(): Promise<Message.Any> {
+		return this.channel.recv()
+	}
+
+	async match(pred: FilterFn<Message.Any>): Promise<Message.Any> {
+		return this.channel.match(pred)
+	}
+
+	/**
+	 * Send a message to every linked stage.
+	 */
+	send(msg: Message.Any): void {
+		for (const stage of this.stages.values()) {
+			stage.instance.send(msg)
+		}
+	}
+
+	/**
+	 * Try and get an actor from the swarm, by name or UUID.
+	 *
+	 * The lookup goes through every stage reachable from this one, and resolves to
+	 * `null` when none of them knows about the actor; dead actors are forgotten so
+	 * they cannot be found either.
+	 *
+	 * When a neighbor `stage` is given only that stage (and the stages behind it)
+	 * are asked, which is how a name registered on many stages can be told apart.
+	 *
+	 * Actors on this stage are resolved to their address as well, so the handle
+	 * keeps working when the actor is restarted with the same UUID.
+	 */
+	async actor<T>(id: string, stage?: Stage): Promise<Actor<T> | null> {
+		const local = this.local<T>(id)
+		if (local && (!stage || stage.id == this.id)) {
+			return new RemoteActor<T>(local.address, this)
+		}
+
+		if (stage) {
+			const address = await this.query(stage, id)
+			return address ? new RemoteActor<T>(address, this) : null
+		}
+
+		const address = await this.whois({
+			id: uuid(),
+			type: Message.Type.WHOIS_ACTOR,
+			whois: id,
+		})
+
+		return address ? new RemoteActor<T>(address, this) : null
+	}
+
+	/**
+	 * Get the actor running on this stage under the given name or UUID, if any.
+	 */
+	local<T>(id: string): LocalActor<T> | undefined {
+		return this.actors.get(this.names.get(id) ?? id)
+	}
+
+	/**
+	 * Link up with every other stage federated under the same name, usually
+	 * stages in other tabs of the same origin; peers can come and go at any time.
+	 */
+	federate(name: string): void {
+		;(async () => {
+			for await (const peer of federation.peers<Message.Any>(name, this.id)) {
+				this.peer(peer)
+			}
+		})()
+	}
+
+	/**
+	 * Link up with the stage at the other end of the channel as peers, the other
+	 * side has to do the same.
+	 */
+	async peer(channel: Channel<Message.Any, any>): Promise<Stage> {
+		channel.send({ type: Message.Type.STAGE, stage: this.id })
+		return this.attach(Link.PEER, channel)
+	}
+
+	/**
+	 * Link up with the stage listening at the given URL, see `stream.connect`.
+	 *
+	 * ```ts
+	 * await stage.connect('tcp://localhost:4000');
+	 * ```
+	 */
+	async connect(url: string | URL, options?: stream.Options): Promise<Stage> {
+		return this.peer(await stream.connect<Message.Any>(url, options))
+	}
+
+	/**
+	 * Link up with every stage connecting to the given TCP port (only in Node),
+	 * from the same machine unless another `host` is given (see `stream.listen`).
+	 *
+	 * Connecting stages are trusted like any other, only listen where they can be.
+	 */
+	async listen(
+		port: number,
+		options?: stream.Options & { host?: string }
+	): Promise<stream.Listener> {
+		return stream.listen<Message.Any>(
+			port,
+			(channel) => this.peer(channel).catch(() => channel.close()),
+			options
+		)
+	}
+
+	/**
+	 * Spawn a stage as a dedicated worker.
+	 */
+	async dedicated(source: URL | string): Promise<Stage> {
+		const dedicated = this.workers.dedicated<Message.Any>(source)
+		dedicated.send({ type: Message.Type.STAGE, stage: this.id })
+
+		return this.attach(Link.CHILD, dedicated)
+	}
+
+	/**
+	 * Spawn a stage as a shared worker.
+	 */
+	async shared(source: URL | string): Promise<Stage> {
+		const shared = this.workers.shared<Message.Any>(source)
+		shared.send({ type: Message.Type.STAGE, stage: this.id })
+
+		return this.attach(Link.CHILD, shared)
+	}
+
+	/**
+	 * Spawn a pool of `size` dedicated workers, and a global actor routing every
+	 * message it receives to the `actor` registered by one of the workers.
+	 *
+	 * ```ts
+	 * const add = stage.pool(WORKER, { size: 4, actor: "add", strategy: pool.Strategy.LEAST_MAILBOX });
+	 * ```
+	 */
+	pool<T = any>(source: URL | string, options: PoolOptions<T>): LocalActor<T> {
+		return this.register(options.name ?? options.actor, balance(source, options), { global: true })
+	}
+
+	/**
 	 * Spawn an actor from the given generator.
 	 */
-	spawn<T = any>(fn: Spawn<T>): Actor<T> {
-		const act = new LocalActor(fn)
-		this.actors.set(act.address.actor, act)
-		return act
+	spawn<T = any>(fn: Spawn<T>, options: Options = {}): LocalActor<T> {
+		const previous = options.id && this.actors.get(options.id)
+		if (previous instanceof LocalActor && previous.alive) {
+			throw new Error('the actor is still alive')
+		}
+
+		const act = this.run(() => new LocalActor(fn, options, this))
+		this.actors.set(act.address.actor, act)
+		act.exited.then((reason) => this.down(act, reason))
+		return act
+	}
+
+	/**
+	 * Link two actors together, when either exits the other receives an `EXIT`
+	 * signal with the reason.
+	 */
+	link(a: Actor<any> | Address, b: Actor<any> | Address): void {
+		const [from, to] = [addressOf(a), addressOf(b)]
+
+		this.route(<Message.Link>{ id: uuid(), type: Message.Type.LINK, from: to, to: from })
+		this.route(<Message.Link>{ id: uuid(), type: Message.Type.LINK, from, to })
+	}
+
+	/**
+	 * Remove the link between two actors.
+	 */
+	unlink(a: Actor<any> | Address, b: Actor<any> | Address): void {
+		const [from, to] = [addressOf(a), addressOf(b)]
+
+		this.route(<Message.Unlink>{ id: uuid(), type: Message.Type.UNLINK, from: to, to: from })
+		this.route(<Message.Unlink>{ id: uuid(), type: Message.Type.UNLINK, from, to })
+	}
+
+	/**
+	 * Make `watcher` monitor `target`, when the target exits the watcher receives
+	 * a `DOWN` signal with the returned reference and the reason.
+	 */
+	monitor(watcher: Actor<any> | Address, target: Actor<any> | Address): string {
+		const ref = uuid()
+		const [from, to] = [addressOf(watcher), addressOf(target)]
+
+		this.monitoring.set(ref, { watcher: from, target: to })
+		this.route(<Message.Monitor>{ id: uuid(), type: Message.Type.MONITOR, ref, from, to })
+
+		return ref
+	}
+
+	/**
+	 * Send a message to an actor and wait for the reply, from anywhere.
+	 *
+	 * The reply address is a short-lived actor on this stage that exits as soon
+	 * as the reply arrives, the request is rejected if the actor exits or does not
+	 * reply in time.
+	 *
+	 * ```ts
+	 * const add = await stage.actor('add');
+	 * const result = await add.ask({ a: 2, b: 3 }, { timeout: 1000 });
+	 * ```
+	 */
+	async ask<T, R = any>(
+		actor: Actor<T> | Address,
+		msg: Ask<T, R>,
+		options: AskOptions = {}
+	): Promise<R> {
+		const target = 'address' in actor ? actor : new RemoteActor<T>(actor, this)
+		const timeout = options.timeout ?? 5000
+		const result = new Deferred<R>()
+
+		this.spawn(async function* (self: Actor<R>) {
+			const ref = self.monitor(target)
+
+			// A message refused by the target fails the ask right away.
+			target
+				.send(_.isFunction(msg) ? msg(self) : ({ ...msg, from: self } as unknown as T))
+				.catch((error) => {
+					self.demonitor(ref)
+					result.reject(error)
+					self.exit()
+				})
+
+			const reply = yield receive((msg: any) => !Signal.isDown(msg) || msg.ref == ref, { timeout })
+
+			self.demonitor(ref)
+
+			if (isTimeout(reply)) {
+				result.reject(new Error('the actor did not reply in time'))
+			} else if (Signal.isDown(reply) && reply.ref == ref) {
+				result.reject(new Error(`the actor exited: ${reply.reason}`))
+			} else {
+				result.resolve(reply)
+			}
+		})
+
+		return result.promise
+	}
+
+	/**
+	 * Stop an actor with the given reason, local actors get to run their
+	 * `finally` blocks unless the reason is `Reason.KILL`.
+	 */
+	async exit(actor: Actor<any> | Address, reason: any = Reason.NORMAL): Promise<void> {
+		const address = addressOf(actor)
+
+		if (address.stage == this.id) {
+			return this.actors.get(address.actor)?.exit(reason)
+		}
+
+		this.route(<Message.Terminate>{
+			id: uuid(),
+			type: Message.Type.TERMINATE,
+			to: address,
+			reason,
+		})
+	}
+
+	/**
+	 * Remove a monitor through its reference.
+	 */
+	demonitor(ref: string): void {
+		const monitor = this.monitoring.get(ref)
+		if (!monitor) {
+			return
+		}
+
+		this.monitoring.delete(ref)
+		this.route(<Message.Demonitor>{
+			id: uuid(),
+			type: Message.Type.DEMONITOR,
+			ref,
+			from: monitor.watcher,
+			to: monitor.target,
+		})
+	}
+
+	/**
+	 * Register an actor under a specific name.
+	 */
+	register<T = any>(
+		name: string,
+		fn: Spawn<T> | LocalActor<T>,
+		options: RegisterOptions = {}
+	): LocalActor<T> {
+		const current = options.global ? this.globals.get(name)?.actor : this.names.get(name)
+		const id = fn instanceof LocalActor ? fn.address.actor : options.id
+
+		if (current && current != id) {
+			throw new Error(`the name \`${name}\` is already registered`)
+		}
+
+		const act = fn instanceof LocalActor ? fn : this.spawn(fn, options)
+
+		if (options.global) {
+			this.bind(name, act.address)
+		} else {
+			this.names.set(name, act.address.actor)
+		}
+
+		return act
+	}
+
+	/**
+	 * Take a named lock shared by the whole swarm, waiting for as long as somebody
+	 * else holds it; the lock is freed when its holder's stage goes away.
+	 *
+	 * ```ts
+	 * const lock = await stage.lock("sync");
+	 * try {
+	 *   await sync();
+	 * } finally {
+	 *   lock.release();
+	 * }
+	 * ```
+	 */
+	async lock(name: string, options: LockOptions = {}): Promise<Lock> {
+		const deadline = this.scheduler.now() + (options.timeout ?? Infinity)
+
+		while (true) {
+			const holder = { stage: this.id, token: uuid() }
+
+			if (await this.claim(name, holder)) {
+				const lost = new Deferred<void>()
+				this.owned.set(holder.token, lost)
+
+				return {
+					name,
+					lost: lost.promise,
+					release: () => {
+						this.owned.delete(holder.token)
+						this.unlock({ id: uuid(), type: Message.Type.RELEASE, name, holder })
+					},
+				}
+			}
+
+			if (this.scheduler.now() >= deadline) {
+				throw new Error(`the lock \`${name}\` could not be taken in time`)
+			}
+
+			// Wait for the lock to be released, or a little while in case the news
+			// never reaches us.
+			await new Promise<void>((resolve) => {
+				const contenders = this.contenders.get(name) ?? new Set()
+				const wake = () => {
+					this.scheduler.clearTimeout(timer)
+					contenders.delete(wake)
+					if (contenders.size == 0) {
+						this.contenders.delete(name)
+					}
+					resolve()
+				}
+				const timer = this.scheduler.setTimeout(
+					wake,
+					Math.min(
+						(LOCK_BACKOFF / 2) * (1 + this.scheduler.random()),
+						deadline - this.scheduler.now()
+					)
+				)
+
+				contenders.add(wake)
+				this.contenders.set(name, contenders)
+			})
+		}
+	}
+
+	/**
+	 * Campaign to become the leader for the given name, resolves once elected;
+	 * there is at most one leader for a name in the whole swarm, and when it goes
+	 * away another stage campaigning for it takes over.
+	 *
+	 * ```ts
+	 * const leadership = await stage.elect("sync");
+	 * const sync = await stage.spawn(synchronize);
+	 * leadership.lost.then(() => sync.exit());
+	 * ```
+	 */
+	async elect(name: string): Promise<Lock> {
+		return this.lock(`shumei.stage.elect:${name}`)
+	}
+
+	/**
+	 * Take a snapshot of this stage.
+	 */
+	private report(spans = false): StageInfo {
+		const names = new Map<string, string[]>()
+		const name = (id: string, name: string) => names.set(id, [...(names.get(id) ?? []), name])
+
+		for (const [alias, id] of this.names) {
+			name(id, alias)
+		}
+
+		for (const [alias, actor] of this.globals) {
+			if (actor.stage == this.id && !names.get(actor.actor)?.includes(alias)) {
+				name(actor.actor, alias)
+			}
+		}
+
+		const now = this.scheduler.now()
+		return {
+			id: this.id,
+			uptime: now - this.started,
+			links: _.fromPairs([...this.stages].map(([id, { as }]) => [id, as])),
+			routes: _.fromPairs([...this.routes].map(([id, { hops }]) => [id, hops])),
+			actors: _.fromPairs(
+				[...this.actors.values()]
+					.filter((act) => act.alive)
+					.map((act) => [
+						act.address.actor,
+						{
+							id: act.address.actor,
+							names: names.get(act.address.actor) ?? [],
+							mailbox: act.size,
+							pending: act.pending,
+							dropped: act.dropped,
+							links: act.links.size,
+							monitors: act.monitors.size,
+							uptime: now - act.started,
+						},
+					])
+			),
+			metrics: metrics.live().snapshot(),
+			registry: metrics.live().id,
+			spans: spans
+				? trace
+						.live()
+						.snapshot()
+						.filter((span) => span.stage == this.id)
+				: undefined,
+		}
+	}
+
+	/**
+	 * Take a snapshot of a stage anywhere in the swarm, this one by default.
+	 */
+	async inspect(stage: string = this.id): Promise<StageInfo> {
+		return this.survey(stage, false)
+	}
+
+	/**
+	 * Take a snapshot of a stage, with its recorded spans if asked.
+	 */
+	private async survey(stage: string, spans: boolean): Promise<StageInfo> {
+		if (stage == this.id) {
+			return this.report(spans)
+		}
+
+		const request = <Message.Inspect>{
+			id: uuid(),
+			type: Message.Type.INSPECT,
+			to: { stage, actor: '' },
+			from: this.id,
+			spans,
+		}
+
+		const controller = new AbortController()
+		const timer = this.scheduler.setTimeout(() => controller.abort(), LOOKUP_TIMEOUT)
+
+		try {
+			this.route(request)
+
+			const report = (await this.channel.match(
+				(msg) => Message.isReport(msg) && msg.request == request.id,
+				controller.signal
+			)) as Message.Report
+
+			return report.info
+		} catch (err) {
+			throw new Error(`the stage \`${stage}\` did not answer in time`)
+		} finally {
+			this.scheduler.clearTimeout(timer)
+		}
+	}
+
+	/**
+	 * Take a snapshot of every stage reachable from this one, stages that do not
+	 * answer in time are left out.
+	 *
+	 * ```ts
+	 * for (const info of await stage.observe()) {
+	 *   console.log(info.id, Object.keys(info.actors).length);
+	 * }
+	 * ```
+	 */
+	async observe(): Promise<StageInfo[]> {
+		const stages = _.uniq([this.id, ...this.stages.keys(), ...this.routes.keys()])
+		const reports = await Promise.allSettled(stages.map((stage) => this.inspect(stage)))
+
+		return reports
+			.filter((report) => report.status == 'fulfilled')
+			.map((report) => (report as PromiseFulfilledResult<StageInfo>).value)
+	}
+
+	/**
+	 * Collect the metrics of every reachable stage, rendered in the Prometheus
+	 * text exposition format with a `stage` label.
+	 *
+	 * Stages in the same process share their metrics, so they are collected once
+	 * and labelled with one of those stages.
+	 */
+	async scrape(): Promise<string> {
+		const reports = _.uniqBy(await this.observe(), 'registry')
+
+		return metrics.render(
+			metrics.merge(
+				...reports.map((info) => ({ labels: { stage: info.id }, snapshot: info.metrics }))
+			)
+		)
 	}
 
 	/**
-	 * Register an actor under a specific name.
+	 * Collect the spans recorded by every reachable stage, ordered by start time;
+	 * stages only record spans once tracing is enabled on them.
+	 *
+	 * ```ts
+	 * trace.enable();
+	 * // ...
+	 * const json = JSON.stringify(trace.chrome(await stage.spans()));
+	 * ```
 	 */
-	register<T = any>(name: string, fn: Spawn<T> | LocalActor<T>): Actor<T> {
-		const act = fn instanceof LocalActor ? fn : this.spawn(fn)
-		this.names.set(name, act.address.actor)
-		return act
+	async spans(): Promise<trace.Span[]> {
+		const stages = _.uniq([this.id, ...this.stages.keys(), ...this.routes.keys()])
+		const reports = await Promise.allSettled(stages.map((stage) => this.survey(stage, true)))
+
+		return _.sortBy(
+			reports.flatMap((report) => (report.status == 'fulfilled' ? report.value.spans ?? [] : [])),
+			'start'
+		)
 	}
 
 	/**
-	 * Spawn an actor with a mildly fancier runner, think gen_server from Erlang.
+	 * Add an actor to a group, groups are shared by the whole swarm and actors
+	 * leave them automatically when they die.
 	 */
-	act(name: string, klass: any): Actor<any> {
-		const handler = new klass(self)
+	join(group: string, actor: Actor<any> | Address): void {
+		this.enter(group, addressOf(actor))
+	}
 
-		return this.register<any>(name, async function* (self) {
-			while (true) {
-				const msg = yield
-				msg.result?.resolve(handler[msg.type]!(...msg.args))
-			}
-		})
+	/**
+	 * Remove an actor from a group.
+	 */
+	leave(group: string, actor: Actor<any> | Address): void {
+		this.exclude(group, addressOf(actor))
+	}
+
+	/**
+	 * Get the actors in a group, as known by this stage.
+	 */
+	members<T = any>(group: string): Actor<T>[] {
+		return [...(this.groups.get(group)?.values() ?? [])].map(
+			(address) => this.actors.get(address.actor) ?? new RemoteActor<T>(address, this)
+		)
+	}
+
+	/**
+	 * Send a message to every actor in a group.
+	 */
+	publish<T = any>(group: string, msg: T): void {
+		for (const actor of this.members<T>(group)) {
+			actor.send(msg).catch(() => {})
+		}
+	}
+
+	/**
+	 * Remove a name, global names are removed from the whole swarm.
+	 */
+	unregister(name: string): void {
+		this.names.delete(name)
+
+		const actor = this.globals.get(name)
+		if (actor) {
+			this.unbind(name, actor)
+		}
 	}
 }
 
@@ -365,21 +2268,39 @@ export class Remote {
 
 const LIVE = Symbol('shumei.stage.live')
 
-/** Create a stage for the current worker.
+/**
+ * The stage running code right now, if it is not the one of the worker.
+ */
+let current: Live | undefined
+
+/**
+ * The UUID of the actor handling a message right now, up to its first `await`;
+ * what it sends in the meantime is counted as sent by it.
+ */
+let acting: string | undefined
+
+/** Get the current stage, creating the stage for the current worker if needed.
+ *
+ * Actors get their own stage while they handle a message, up to the first
+ * `await`.
  */
 export function live(): Live {
-	if (!self[LIVE]) {
-		self[LIVE] = new Live()
+	if (current) {
+		return current
+	}
+
+	if (!globalThis[LIVE]) {
+		globalThis[LIVE] = new Live({ hook: true })
 	}
 
-	return self[LIVE]
+	return globalThis[LIVE]
 }
 
 /**
  * Check if the current context is running a stage.
  */
 export function isLive(): boolean {
-	return !!self[LIVE]
+	return !!current || !!globalThis[LIVE]
 }
 
 /**
@@ -389,6 +2310,51 @@ export function ready(): void {
 	return live().ready()
 }
 
+/**
+ * @see Live.close
+ */
+export function close(): void {
+	live().close()
+}
+
+/**
+ * @see Live.on
+ */
+export function on(event: Event, listener: (stage: Remote) => void): () => void {
+	return live().on(event, listener)
+}
+
+/**
+ * @see Live.federate
+ */
+export function federate(name: string): void {
+	return live().federate(name)
+}
+
+/**
+ * @see Live.peer
+ */
+export async function peer(channel: Channel<Message.Any, any>): Promise<Stage> {
+	return live().peer(channel)
+}
+
+/**
+ * @see Live.connect
+ */
+export async function connect(url: string | URL, options?: stream.Options): Promise<Stage> {
+	return live().connect(url, options)
+}
+
+/**
+ * @see Live.listen
+ */
+export async function listen(
+	port: number,
+	options?: stream.Options & { host?: string }
+): Promise<stream.Listener> {
+	return live().listen(port, options)
+}
+
 /**
  * @see Live.dedicated
  */
@@ -396,96 +2362,522 @@ export async function dedicated(source: URL | string): Promise<Stage> {
 	return live().dedicated(source)
 }
 
-/**
- * @see Live.shared
- */
-export async function shared(source: URL | string): Promise<Stage> {
-	return live().shared(source)
-}
+/**
+ * @see Live.shared
+ */
+export async function shared(source: URL | string): Promise<Stage> {
+	return live().shared(source)
+}
+
+/**
+ * @see Live.actor
+ */
+export async function actor<T>(id: string): Promise<Actor<T> | null> {
+	return live().actor(id)
+}
+
+/**
+ * @see Live.spawn
+ */
+export async function spawn<T>(fn: Spawn<T>, options?: Options): Promise<Actor<T>> {
+	return live().spawn(fn, options)
+}
+
+/**
+ * @see Live.pool
+ */
+export async function pool<T>(source: URL | string, options: PoolOptions<T>): Promise<Actor<T>> {
+	return live().pool(source, options)
+}
+
+/**
+ * @see Live.register
+ */
+export async function register<T>(
+	name: string,
+	fn: Spawn<T> | LocalActor<T>,
+	options?: RegisterOptions
+): Promise<Actor<T>> {
+	return live().register(name, fn, options)
+}
+
+/**
+ * @see Live.unregister
+ */
+export function unregister(name: string): void {
+	return live().unregister(name)
+}
+
+/**
+ * @see Live.lock
+ */
+export async function lock(name: string, options?: LockOptions): Promise<Lock> {
+	return live().lock(name, options)
+}
+
+/**
+ * @see Live.elect
+ */
+export async function elect(name: string): Promise<Lock> {
+	return live().elect(name)
+}
+
+/**
+ * @see Live.inspect
+ */
+export async function inspect(stage?: string): Promise<StageInfo> {
+	return live().inspect(stage)
+}
+
+/**
+ * @see Live.observe
+ */
+export async function observe(): Promise<StageInfo[]> {
+	return live().observe()
+}
+
+/**
+ * @see Live.scrape
+ */
+export async function scrape(): Promise<string> {
+	return live().scrape()
+}
+
+/**
+ * @see Live.spans
+ */
+export async function spans(): Promise<trace.Span[]> {
+	return live().spans()
+}
+
+/**
+ * @see Live.join
+ */
+export function join(group: string, actor: Actor<any> | Address): void {
+	return live().join(group, actor)
+}
+
+/**
+ * @see Live.leave
+ */
+export function leave(group: string, actor: Actor<any> | Address): void {
+	return live().leave(group, actor)
+}
+
+/**
+ * @see Live.members
+ */
+export function members<T = any>(group: string): Actor<T>[] {
+	return live().members(group)
+}
+
+/**
+ * @see Live.publish
+ */
+export function publish<T = any>(group: string, msg: T): void {
+	return live().publish(group, msg)
+}
+
+/**
+ * @see Live.link
+ */
+export function link(a: Actor<any> | Address, b: Actor<any> | Address): void {
+	return live().link(a, b)
+}
+
+/**
+ * @see Live.unlink
+ */
+export function unlink(a: Actor<any> | Address, b: Actor<any> | Address): void {
+	return live().unlink(a, b)
+}
+
+/**
+ * @see Live.monitor
+ */
+export function monitor(watcher: Actor<any> | Address, target: Actor<any> | Address): string {
+	return live().monitor(watcher, target)
+}
+
+/**
+ * @see Live.demonitor
+ */
+export function demonitor(ref: string): void {
+	return live().demonitor(ref)
+}
+
+/**
+ * @see Live.ask
+ */
+export async function ask<T, R = any>(
+	actor: Actor<T> | Address,
+	msg: Ask<T, R>,
+	options?: AskOptions
+): Promise<R> {
+	return live().ask(actor, msg, options)
+}
+
+/**
+ * @see Live.exit
+ */
+export async function exit(actor: Actor<any> | Address, reason?: any): Promise<void> {
+	return live().exit(actor, reason)
+}
+
+export class RemoteActor<T> implements Actor<T> {
+	constructor(public address: Address, public stage: Live = live()) {}
+
+	async send(msg: T): Promise<void> {
+		if (this.stage.id === this.address.stage) {
+			return this.stage.local<T>(this.address.actor)?.send(msg)
+		}
+
+		await this.stage.deliver(this.address, msg)
+	}
+
+	link(other: Actor<any> | Address): void {
+		this.stage.link(this, other)
+	}
+
+	unlink(other: Actor<any> | Address): void {
+		this.stage.unlink(this, other)
+	}
+
+	monitor(other: Actor<any> | Address): string {
+		return this.stage.monitor(this, other)
+	}
+
+	demonitor(ref: string): void {
+		this.stage.demonitor(ref)
+	}
+
+	async exit(reason?: any): Promise<void> {
+		return this.stage.exit(this, reason)
+	}
+
+	async ask<R = any>(msg: Ask<T, R>, options?: AskOptions): Promise<R> {
+		return this.stage.ask(this, msg, options)
+	}
+}
+
+export class LocalActor<T> implements Actor<T> {
+	private id: string
+	private channel: Mailbox<T>
+	private capacity: number
+	private overflow: Overflow
+	private blocked: Array<{ message: T; delivered: Deferred<void> }>
+	private contexts: WeakMap<object, trace.Context>
+	private iter: AsyncGenerator<FilterFn<T> | Receive<T> | undefined, any, T>
+	private done: Deferred<any>
+
+	/**
+	 * Whether the generator is running, rather than waiting for a message.
+	 */
+	private running: boolean
+
+	/**
+	 * Whether the generator is still running.
+	 */
+	alive: boolean
+
+	/**
+	 * Resolved with the exit reason once the generator is done.
+	 */
+	exited: Promise<any>
+
+	/**
+	 * Actors linked to this one, by actor UUID.
+	 */
+	links: Map<string, Address>
+
+	/**
+	 * Actors monitoring this one, by monitor reference.
+	 */
+	monitors: Map<string, Address>
+
+	/**
+	 * Number of messages dropped because the mailbox was full.
+	 */
+	dropped: number
+
+	/**
+	 * When the actor was spawned.
+	 */
+	started: number
+
+	/**
+	 * Number of messages waiting in the mailbox.
+	 */
+	get size(): number {
+		return this.channel.size
+	}
+
+	/**
+	 * Number of pending receives.
+	 */
+	get pending(): number {
+		return this.channel.pending
+	}
+
+	constructor(spawn: Spawn<T>, options: Options = {}, public stage: Live = live()) {
+		if (options.capacity !== undefined && !(options.capacity >= 1)) {
+			throw new Error('the capacity of a mailbox has to be at least 1')
+		}
+
+		this.id = options.id ?? uuid()
+		this.channel = new Mailbox<T>()
+		this.capacity = options.capacity ?? Infinity
+		this.overflow = options.overflow ?? Overflow.DROP_NEWEST
+		this.blocked = []
+		this.contexts = new WeakMap()
+		this.dropped = 0
+		this.started = this.stage.scheduler.now()
+
+		this.alive = true
+		this.running = false
+		this.links = new Map()
+		this.monitors = new Map()
+
+		this.done = new Deferred<any>()
+		this.exited = this.done.promise
+
+		// Exiting through its own handle while running stops the generator right there,
+		// the `Exit` thrown into it ends `handle` below.
+		const self = new RemoteActor<T>({ actor: this.id, stage: this.stage.id }, this.stage)
+		self.exit = async (reason: any = Reason.NORMAL) => {
+			const running = this.running
+			await this.exit(reason)
+
+			if (running) {
+				throw new Exit(reason)
+			}
+		}
+
+		// Call the generator function with a reference to self.
+		this.iter = spawn(self)
+
+		// Promise-oriented handling of a local actor, this gets spawned onto the event-loop.
+		const handle = async (
+			// The message for the previous yield.
+			message?: T
+		) => {
+			// The actor has been stopped while waiting for a message.
+			if (!this.alive) return
+
+			// Return result of previous receive and get a filter for the next receive if any,
+			// anything sent while handling a traced message is a child of its span.
+			const context = _.isObject(message) ? this.contexts.get(message) : undefined
+			this.running = true
+
+			const { done, value } = await this.stage
+				.run(() => this.act(() => trace.live().within(context, () => this.iter.next(message))))
+				.finally(() => (this.running = false))
+
+			// The actor might have been stopped while it was running.
+			if (done || !this.alive) return
+
+			const received = await this.receive(value)
+			this.admit()
+
+			return handle(received)
+		}
+
+		handle().then(
+			() => this.terminate(Reason.NORMAL),
+			(reason) => this.terminate(reason instanceof Exit ? reason.reason : reason)
+		)
+	}
+
+	/**
+	 * Run a function as the actor, see `acting`.
+	 */
+	private act<R>(fn: () => R): R {
+		const previous = acting
+		acting = this.id
+
+		try {
+			return fn()
+		} finally {
+			acting = previous
+		}
+	}
+
+	/**
+	 * Receive the next message for the generator.
+	 */
+	private async receive(value: FilterFn<T> | Receive<T> | undefined): Promise<T> {
+		if (!isReceive<T>(value)) {
+			return value ? this.channel.match(value) : this.channel.recv()
+		}
+
+		const filter = value.filter ?? (() => true)
+		if (value.timeout === undefined) {
+			return this.channel.match(filter)
+		}
+
+		// The pending match is aborted on timeout, so a late message stays in the mailbox.
+		const controller = new AbortController()
+		const timer = this.stage.scheduler.setTimeout(() => controller.abort(), value.timeout)
+
+		try {
+			return await this.channel.match(filter, controller.signal)
+		} catch (err) {
+			if (controller.signal.aborted) {
+				return TIMEOUT as unknown as T
+			}
+
+			throw err
+		} finally {
+			this.stage.scheduler.clearTimeout(timer)
+		}
+	}
+
+	/**
+	 * Mark the actor as dead with the given reason.
+	 */
+	private terminate(reason: any): void {
+		if (this.alive) {
+			this.alive = false
+			this.done.resolve(reason)
+		}
+
+		this.unblock()
+	}
+
+	/**
+	 * Hand free slots in the mailbox to the senders blocked the longest, so they
+	 * get in in the order they came and nobody can take a slot in between.
+	 */
+	private admit(): void {
+		while (this.channel.size < this.capacity && this.blocked.length > 0) {
+			const blocked = this.blocked.shift()!
+			this.channel.push(blocked.message)
+			received.inc({ actor: this.id })
+			blocked.delivered.resolve()
+		}
+	}
 
-/**
- * @see Live.actor
- */
-export async function actor<T>(id: string): Promise<Actor<T> | null> {
-	return live().actor(id)
-}
+	/**
+	 * Let go of blocked senders, their messages are lost with the actor.
+	 */
+	private unblock(): void {
+		for (const blocked of this.blocked.splice(0)) {
+			blocked.delivered.resolve()
+		}
+	}
 
-/**
- * @see Live.spawn
- */
-export async function spawn<T>(fn: Spawn<T>): Promise<Actor<T>> {
-	return live().spawn(fn)
-}
+	/**
+	 * Stop the actor with the given reason, the generator is returned so any
+	 * `finally` block gets to run.
+	 *
+	 * When the reason is `Reason.KILL`, or the generator is running (like when
+	 * the actor exits itself), the actor is considered dead right away without
+	 * waiting for the generator to reach its next `yield`; an actor exiting
+	 * through its own handle does not run past the `exit` either.
+	 */
+	async exit(reason: any = Reason.NORMAL): Promise<void> {
+		if (!this.alive) {
+			return
+		}
 
-/**
- * @see Live.register
- */
-export async function register<T>(name: string, fn: Spawn<T> | LocalActor<T>): Promise<Actor<T>> {
-	return live().register(name, fn)
-}
+		this.alive = false
+		this.unblock()
 
-export class RemoteActor<T> implements Actor<T> {
-	constructor(public address: Address) {}
+		if (reason == Reason.KILL || this.running) {
+			this.done.resolve(reason)
+			this.iter.return(undefined).catch(() => {})
+			return
+		}
 
-	async send(msg: T): Promise<void> {
-		if (self[LIVE].id === this.address.stage) {
-			return (await self[LIVE].actor<T>(this.address.actor)).send(msg)
+		try {
+			await this.iter.return(undefined)
+		} finally {
+			this.done.resolve(reason)
 		}
+	}
 
-		self[LIVE].send(<Message.Send>{
-			id: uuid(),
-			type: Message.Type.SEND,
-			to: this.address,
-			message: msg,
-		})
+	get address() {
+		return { stage: this.stage.id, actor: this.id }
 	}
-}
 
-export class LocalActor<T> implements Actor<T> {
-	private id: string
-	private messages: Queue<T>
-	private channel: Mailbox<T>
+	/**
+	 * Deliver a message to the actor, what happens when the mailbox is full
+	 * depends on the `overflow` option it was spawned with.
+	 *
+	 * The trace context, the current one by default, is kept for messages that
+	 * are objects and is current again while the actor handles them.
+	 */
+	async send(msg: T, context = trace.live().current): Promise<void> {
+		if (context && _.isObject(msg)) {
+			this.contexts.set(msg, context)
+		}
 
-	constructor(spawn: Spawn<T>) {
-		this.id = uuid()
-		this.messages = new Queue<T>()
-		this.channel = new Mailbox<T>(channel.fromQueue<T>(this.messages))
+		if (acting) {
+			sent.inc({ actor: acting })
+		}
 
-		// Call the generator function with a reference to self.
-		const iter = spawn(new RemoteActor<T>({ actor: this.id, stage: self[LIVE].id }))
+		// An empty mailbox always has room, there would be nothing to drop otherwise;
+		// senders already blocked go first though.
+		while (
+			this.alive &&
+			((this.channel.size > 0 && this.channel.size >= this.capacity) || this.blocked.length > 0)
+		) {
+			switch (this.overflow) {
+				case Overflow.DROP_OLDEST:
+					this.channel.shift()
+					this.dropped++
+					dropped.inc({ actor: this.id })
+					break
+
+				case Overflow.BLOCK: {
+					const delivered = new Deferred<void>()
+					this.blocked.push({ message: msg, delivered })
+					return delivered.promise
+				}
 
-		// Promise-oriented handling of a local actor, this gets spawned onto the event-loop.
-		const handle = async (
-			// The generator that we spawned.
-			iter: AsyncGenerator<FilterFn<T> | undefined, any, T>,
-			// The message for the previous yield.
-			message?: T
-		) => {
-			// Return result of previous receive and get a filter for the next receive if any.
-			const { done, value } = await iter.next(message)
-			if (done) return
+				case Overflow.REJECT:
+					this.dropped++
+					dropped.inc({ actor: this.id })
+					throw new Error('the mailbox is full')
 
-			return value
-				? handle(iter, await this.channel.match(value as FilterFn<T>))
-				: handle(iter, await this.channel.recv())
+				default:
+					this.dropped++
+					dropped.inc({ actor: this.id })
+					return
+			}
 		}
 
-		handle(iter)
+		if (this.alive) {
+			this.channel.push(msg)
+			received.inc({ actor: this.id })
+		}
 	}
 
-	get address() {
-		return { stage: self[LIVE].id, actor: this.id }
+	link(other: Actor<any> | Address): void {
+		this.stage.link(this, other)
 	}
 
-	async send(msg: T): Promise<void> {
-		this.messages.push(msg)
+	unlink(other: Actor<any> | Address): void {
+		this.stage.unlink(this, other)
+	}
+
+	monitor(other: Actor<any> | Address): string {
+		return this.stage.monitor(this, other)
+	}
+
+	demonitor(ref: string): void {
+		this.stage.demonitor(ref)
+	}
+
+	async ask<R = any>(msg: Ask<T, R>, options?: AskOptions): Promise<R> {
+		return this.stage.ask(this, msg, options)
 	}
 }
 
 wire.codec({
 	name: 'Actor<T>',
 	canHandle: <T>(value: any): value is Actor<T> =>
-		_.isObject(value) && _.isObject(value['handle']) && _.isFunction(value['send']),
+		_.isObject(value) && _.isObject(value['address']) && _.isFunction(value['send']),
 	encode: <T>(value: Actor<T>) => [value.address, []],
 	decode: <T>(value: Address): Actor<T> => new RemoteActor(value),
 })
@@ -501,6 +2893,26 @@ export namespace Message {
 		WHOIS_ACTOR,
 		ACTOR,
 		SEND,
+		DELIVERED,
+		VOTE,
+		INSPECT,
+		REPORT,
+		LINK,
+		UNLINK,
+		MONITOR,
+		DEMONITOR,
+		EXIT,
+		DOWN,
+		TERMINATE,
+		REGISTER,
+		UNREGISTER,
+		ROUTES,
+		HEARTBEAT,
+		JOIN,
+		LEAVE,
+		CLAIM,
+		HOLD,
+		RELEASE,
 	}
 
 	/**
@@ -511,6 +2923,14 @@ export namespace Message {
 		stage: ID
 	}
 
+	/**
+	 * Whether anything received from another stage looks like a message at all,
+	 * before it is looked at any closer.
+	 */
+	export function isMessage(msg: any): msg is Any {
+		return _.isObject(msg) && _.isNumber((msg as Any).type)
+	}
+
 	export function isStage(msg: any): msg is Stage {
 		return msg.type == Type.STAGE
 	}
@@ -528,17 +2948,21 @@ export namespace Message {
 		return msg.type == Type.WHOIS_ACTOR && _.isString(msg.whois)
 	}
 
+	/**
+	 * The answer to `WhoisActor`, `actor` is `null` when the stage does not know
+	 * about it.
+	 */
 	export type Actor = {
 		id: ID
 		type: Type.ACTOR
-		actor: Address
+		actor: Address | null
 	}
 
 	/**
 	 * Check if the message is an actor message.
 	 */
 	export function isActor(msg: any): msg is Actor {
-		return msg.type == Type.ACTOR && _.isObject(msg.actor)
+		return msg.type == Type.ACTOR && (_.isObject(msg.actor) || _.isNull(msg.actor))
 	}
 
 	/**
@@ -551,14 +2975,376 @@ export namespace Message {
 		type: Type.SEND
 		to: Address
 		message: any
+
+		/**
+		 * The stage waiting to know whether the message was delivered.
+		 */
+		from?: ID
+
+		/**
+		 * The span that caused the message, when tracing.
+		 */
+		trace?: trace.Context
 	}
 
 	/**
 	 * Check if the message is a send message.
 	 */
 	export function isSend(msg: any): msg is Send {
-		return msg.type == Type.SEND && _.isObject(msg['actor'])
+		return msg.type == Type.SEND && _.isObject(msg['to'])
+	}
+
+	/**
+	 * The outcome of a `Send`, only the stage of `to` is meaningful.
+	 */
+	export type Delivered = {
+		id: ID
+		type: Type.DELIVERED
+		to: Address
+		send: ID
+		error?: any
+
+		/**
+		 * The size of the mailbox right after the delivery.
+		 */
+		size?: number
+	}
+
+	/**
+	 * Check if the message is a delivered message.
+	 */
+	export function isDelivered(msg: any): msg is Delivered {
+		return msg.type == Type.DELIVERED && _.isString(msg['send'])
+	}
+
+	/**
+	 * The answer to a `Claim`, only the stage of `to` is meaningful.
+	 */
+	export type Vote = {
+		id: ID
+		type: Type.VOTE
+		to: Address
+		claim: ID
+		stage: ID
+		granted: boolean
+	}
+
+	/**
+	 * Check if the message is a vote.
+	 */
+	export function isVote(msg: any): msg is Vote {
+		return msg.type == Type.VOTE && _.isString(msg['claim'])
+	}
+
+	/**
+	 * Ask a stage for a snapshot, only the stage of `to` is meaningful.
+	 */
+	export type Inspect = {
+		id: ID
+		type: Type.INSPECT
+		to: Address
+		from: ID
+
+		/**
+		 * Whether to include the recorded spans.
+		 */
+		spans?: boolean
+	}
+
+	/**
+	 * Check if the message is an inspect message.
+	 */
+	export function isInspect(msg: any): msg is Inspect {
+		return msg.type == Type.INSPECT && _.isString(msg['from'])
+	}
+
+	/**
+	 * The answer to `Inspect`.
+	 */
+	export type Report = {
+		id: ID
+		type: Type.REPORT
+		to: Address
+		request: ID
+		info: StageInfo
+	}
+
+	/**
+	 * Check if the message is a report.
+	 */
+	export function isReport(msg: any): msg is Report {
+		return msg.type == Type.REPORT && _.isString(msg['request'])
+	}
+
+	/**
+	 * Link two actors, `from` is the actor being linked to the recipient.
+	 */
+	export type Link = {
+		id: ID
+		type: Type.LINK
+		from: Address
+		to: Address
+	}
+
+	/**
+	 * Remove a link between two actors.
+	 */
+	export type Unlink = {
+		id: ID
+		type: Type.UNLINK
+		from: Address
+		to: Address
+	}
+
+	/**
+	 * Make `from` monitor the recipient.
+	 */
+	export type Monitor = {
+		id: ID
+		type: Type.MONITOR
+		ref: ID
+		from: Address
+		to: Address
+	}
+
+	/**
+	 * Remove a monitor from the recipient.
+	 */
+	export type Demonitor = {
+		id: ID
+		type: Type.DEMONITOR
+		ref: ID
+		from: Address
+		to: Address
+	}
+
+	/**
+	 * Tell a linked actor that `from` exited.
+	 */
+	export type Exit = {
+		id: ID
+		type: Type.EXIT
+		from: Address
+		to: Address
+		reason: any
+	}
+
+	/**
+	 * Tell a monitoring actor that `from` exited.
+	 */
+	export type Down = {
+		id: ID
+		type: Type.DOWN
+		ref: ID
+		from: Address
+		to: Address
+		reason: any
+	}
+
+	/**
+	 * Stop the recipient with the given reason.
+	 */
+	export type Terminate = {
+		id: ID
+		type: Type.TERMINATE
+		to: Address
+		reason: any
+	}
+
+	/**
+	 * Any message addressed to a specific actor, `ttl` is the number of hops it can
+	 * still travel.
+	 */
+	export type Routed = (
+		| Send
+		| Delivered
+		| Vote
+		| Inspect
+		| Report
+		| Link
+		| Unlink
+		| Monitor
+		| Demonitor
+		| Exit
+		| Down
+		| Terminate
+	) & {
+		ttl?: number
+	}
+
+	/**
+	 * Check if the message has to be routed to a specific actor.
+	 */
+	export function isRouted(msg: any): msg is Routed {
+		return msg.type >= Type.SEND && msg.type <= Type.TERMINATE && _.isObject(msg['to'])
+	}
+
+	/**
+	 * Bind a global name, forwarded to every stage.
+	 */
+	export type Register = {
+		type: Type.REGISTER
+		name: string
+		actor: Address
+	}
+
+	/**
+	 * Check if the message is a register message.
+	 */
+	export function isRegister(msg: any): msg is Register {
+		return msg.type == Type.REGISTER && _.isString(msg.name) && _.isObject(msg.actor)
+	}
+
+	/**
+	 * Unbind a global name, forwarded to every stage.
+	 */
+	export type Unregister = {
+		type: Type.UNREGISTER
+		name: string
+		actor: Address
+	}
+
+	/**
+	 * Check if the message is an unregister message.
+	 */
+	export function isUnregister(msg: any): msg is Unregister {
+		return msg.type == Type.UNREGISTER && _.isString(msg.name) && _.isObject(msg.actor)
+	}
+
+	/**
+	 * Advertise the stages reachable through the sender, with their distance in
+	 * hops.
+	 */
+	export type Routes = {
+		type: Type.ROUTES
+		stage: ID
+		routes: Record<ID, number>
+	}
+
+	/**
+	 * Check if the message is a routes message.
+	 */
+	export function isRoutes(msg: any): msg is Routes {
+		return msg.type == Type.ROUTES && _.isString(msg.stage) && _.isObject(msg.routes)
+	}
+
+	/**
+	 * Tell a neighbor we are still alive.
+	 */
+	export type Heartbeat = {
+		type: Type.HEARTBEAT
+		stage: ID
+	}
+
+	/**
+	 * Check if the message is a heartbeat.
+	 */
+	export function isHeartbeat(msg: any): msg is Heartbeat {
+		return msg.type == Type.HEARTBEAT
+	}
+
+	/**
+	 * Add an actor to a group, forwarded to every stage.
+	 */
+	export type Join = {
+		type: Type.JOIN
+		group: string
+		actor: Address
+	}
+
+	/**
+	 * Check if the message is a join message.
+	 */
+	export function isJoin(msg: any): msg is Join {
+		return msg.type == Type.JOIN && _.isString(msg.group) && _.isObject(msg.actor)
+	}
+
+	/**
+	 * Remove an actor from a group, forwarded to every stage.
+	 */
+	export type Leave = {
+		type: Type.LEAVE
+		group: string
+		actor: Address
+	}
+
+	/**
+	 * Check if the message is a leave message.
+	 */
+	export function isLeave(msg: any): msg is Leave {
+		return msg.type == Type.LEAVE && _.isString(msg.group) && _.isObject(msg.actor)
+	}
+
+	/**
+	 * Who holds a lock, `token` tells apart different holds from the same stage.
+	 */
+	export type Holder = {
+		stage: ID
+		token: ID
+	}
+
+	/**
+	 * Claim a lock, forwarded to every stage which votes on it.
+	 */
+	export type Claim = {
+		id: ID
+		type: Type.CLAIM
+		name: string
+		holder: Holder
+	}
+
+	/**
+	 * Check if the message is a claim.
+	 */
+	export function isClaim(msg: any): msg is Claim {
+		return msg.type == Type.CLAIM && _.isString(msg.name) && _.isObject(msg.holder)
+	}
+
+	/**
+	 * Tell a stage who holds a lock.
+	 */
+	export type Hold = {
+		type: Type.HOLD
+		name: string
+		holder: Holder
+	}
+
+	/**
+	 * Check if the message is a hold message.
+	 */
+	export function isHold(msg: any): msg is Hold {
+		return msg.type == Type.HOLD && _.isString(msg.name) && _.isObject(msg.holder)
+	}
+
+	/**
+	 * Release a lock, forwarded to every stage.
+	 */
+	export type Release = {
+		id: ID
+		type: Type.RELEASE
+		name: string
+		holder: Holder
+	}
+
+	/**
+	 * Check if the message is a release message.
+	 */
+	export function isRelease(msg: any): msg is Release {
+		return msg.type == Type.RELEASE && _.isString(msg.name) && _.isObject(msg.holder)
 	}
 
-	export type Any = Stage | WhoisActor | Actor | Send
+	export type Any =
+		| Stage
+		| WhoisActor
+		| Actor
+		| Routed
+		| Register
+		| Unregister
+		| Routes
+		| Heartbeat
+		| Join
+		| Leave
+		| Claim
+		| Hold
+		| Release
 }
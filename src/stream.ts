@@ -0,0 +1,400 @@
+import * as _ from 'lodash'
+import * as binary from './binary'
+import { Channel, PortLike } from './channel'
+import { builtin } from './node'
+
+/**
+ * How messages are turned into bytes and back.
+ */
+export interface Format {
+	encode(value: any): Uint8Array
+	decode(data: Uint8Array): any
+}
+
+/**
+ * A duplex stream of whole messages, every `write` on one side comes out as a
+ * single `ondata` on the other.
+ */
+export interface Duplex {
+	ondata: (data: Uint8Array) => any
+	onclose: () => any
+	write(data: Uint8Array): void
+	close(): void
+}
+
+/**
+ * A Node byte stream, like a `net.Socket`, `process.stdin` or `process.stdout`.
+ */
+export interface NodeStream {
+	on(event: string, listener: (...args: any[]) => void): unknown
+	write?(data: Uint8Array): unknown
+	end?(): unknown
+	destroy?(): unknown
+}
+
+/**
+ * A server accepting stages, see `listen`.
+ */
+export type Listener = {
+	/**
+	 * The port listened on, useful when listening on port 0.
+	 */
+	port: number
+
+	/**
+	 * Stop listening and close every channel accepted so far.
+	 */
+	close(): void
+}
+
+export type Options = {
+	format?: Format
+
+	/**
+	 * Frames bigger than this many bytes are refused, and the stream closed;
+	 * `MAX_FRAME` by default.
+	 */
+	maxFrame?: number
+}
+
+/**
+ * Default size in bytes of the biggest frame accepted.
+ */
+export const MAX_FRAME = 64 * 1024 * 1024
+
+const TAG = '$shumei'
+
+/**
+ * Messages in the binary format, see `binary`; the default.
+ */
+export const bytes: Format = {
+	encode: (value) => binary.serialize(value),
+	decode: (data) => binary.deserialize(data),
+}
+
+/**
+ * Messages as UTF-8 JSON, for the other side to read without this library;
+ * errors and big integers are tagged so they survive the trip, anything else
+ * JSON cannot represent is lost.
+ */
+export const json: Format = {
+	encode: (value) =>
+		new TextEncoder().encode(
+			JSON.stringify(value, (_key, value) => {
+				if (_.isError(value)) {
+					return { [TAG]: 'Error', name: value.name, message: value.message, stack: value.stack }
+				}
+
+				if (typeof value == 'bigint') {
+					return { [TAG]: 'BigInt', value: value.toString() }
+				}
+
+				return value
+			})
+		),
+
+	decode: (data) =>
+		JSON.parse(new TextDecoder().decode(data), (_key, value) => {
+			switch (value?.[TAG]) {
+				case 'Error':
+					return Object.assign(new Error(value.message), { name: value.name, stack: value.stack })
+
+				case 'BigInt':
+					return BigInt(value.value)
+
+				default:
+					return value
+			}
+		}),
+}
+
+/**
+ * A `MessagePort` lookalike over a duplex stream.
+ *
+ * Nothing can be transferred over a stream, so nothing that needs transferring
+ * can go through.
+ */
+export class Port implements PortLike {
+	onmessage: (ev: MessageEvent) => any
+	onmessageerror: (ev: MessageEvent) => any
+
+	constructor(public stream: Duplex, private format: Format = bytes) {
+		this.onmessage = () => {}
+		this.onmessageerror = () => {}
+
+		stream.ondata = (data) => {
+			let value: any
+
+			try {
+				value = this.format.decode(data)
+			} catch (err) {
+				this.onmessageerror(new MessageEvent('messageerror', { data: err }))
+				return
+			}
+
+			this.onmessage(new MessageEvent('message', { data: value }))
+		}
+	}
+
+	postMessage(message: any, _transfer: Transferable[]): void {
+		this.stream.write(this.format.encode(message))
+	}
+
+	close(): void {
+		this.stream.close()
+	}
+}
+
+/**
+ * Create a channel over a duplex stream, the channel closes along with the
+ * stream; a message that cannot be decoded is dropped.
+ */
+export function channel<T>(stream: Duplex, options: Options = {}): Channel<T, Port> {
+	const channel = new Channel<T, Port>(new Port(stream, options.format))
+	stream.onclose = () => channel.close()
+
+	return channel
+}
+
+/**
+ * Turn a Node byte stream into a duplex stream of messages, each one prefixed
+ * with its length as a 32-bit big-endian integer; `readable` and `writable`
+ * can be different streams, like `process.stdin` and `process.stdout`.
+ */
+export function socket(
+	readable: NodeStream,
+	writable: NodeStream = readable,
+	options: Pick<Options, 'maxFrame'> = {}
+): Duplex {
+	const maxFrame = options.maxFrame ?? MAX_FRAME
+
+	// Chunks are only joined once a whole frame is in, the length of the frame
+	// being read is known as soon as its prefix is.
+	const chunks: Uint8Array[] = []
+	let buffered = 0
+	let length: number | undefined
+	let closed = false
+
+	const take = (size: number): Uint8Array => {
+		const taken = new Uint8Array(size)
+
+		for (let offset = 0; offset < size; ) {
+			const chunk = chunks[0]
+			const part = chunk.subarray(0, size - offset)
+
+			taken.set(part, offset)
+			offset += part.length
+
+			if (part.length == chunk.length) {
+				chunks.shift()
+			} else {
+				chunks[0] = chunk.subarray(part.length)
+			}
+		}
+
+		buffered -= size
+		return taken
+	}
+
+	const duplex: Duplex = {
+		ondata: () => {},
+		onclose: () => {},
+
+		write(data) {
+			if (closed) {
+				return
+			}
+
+			const frame = new Uint8Array(4 + data.length)
+			new DataView(frame.buffer).setUint32(0, data.length)
+			frame.set(data, 4)
+
+			writable.write?.(frame)
+		},
+
+		close() {
+			if (closed) {
+				return
+			}
+
+			closed = true
+			writable.end?.()
+			readable.destroy?.()
+			duplex.onclose()
+		},
+	}
+
+	readable.on('data', (chunk: Uint8Array) => {
+		chunks.push(chunk)
+		buffered += chunk.length
+
+		while (!closed) {
+			if (length === undefined) {
+				if (buffered < 4) {
+					break
+				}
+
+				length = new DataView(take(4).buffer).getUint32(0)
+				if (length > maxFrame) {
+					duplex.close()
+					return
+				}
+			}
+
+			if (buffered < length) {
+				break
+			}
+
+			const frame = take(length)
+			length = undefined
+			duplex.ondata(frame)
+		}
+	})
+
+	for (const event of ['end', 'close', 'error']) {
+		readable.on(event, () => duplex.close())
+	}
+
+	return duplex
+}
+
+/**
+ * Turn an open `WebSocket` into a duplex stream of messages, every message is
+ * a frame already; text messages are taken as UTF-8.
+ */
+export function websocket(socket: WebSocket, options: Pick<Options, 'maxFrame'> = {}): Duplex {
+	const maxFrame = options.maxFrame ?? MAX_FRAME
+	let closed = false
+	socket.binaryType = 'arraybuffer'
+
+	const duplex: Duplex = {
+		ondata: () => {},
+		onclose: () => {},
+
+		write(data) {
+			if (!closed) {
+				socket.send(data)
+			}
+		},
+
+		close() {
+			if (closed) {
+				return
+			}
+
+			closed = true
+			socket.close()
+			duplex.onclose()
+		},
+	}
+
+	socket.onmessage = (e: MessageEvent) => {
+		const frame = _.isString(e.data)
+			? new TextEncoder().encode(e.data)
+			: new Uint8Array(e.data as ArrayBuffer)
+
+		if (frame.length > maxFrame) {
+			duplex.close()
+			return
+		}
+
+		duplex.ondata(frame)
+	}
+
+	socket.onclose = () => duplex.close()
+	socket.onerror = () => duplex.close()
+
+	return duplex
+}
+
+/**
+ * Open a channel to the given URL, `ws:` and `wss:` go through a `WebSocket`,
+ * and `tcp:` through a socket (only in Node).
+ */
+export async function connect<T>(
+	url: string | URL,
+	options: Options = {}
+): Promise<Channel<T, Port>> {
+	const target = new URL(url)
+
+	switch (target.protocol) {
+		case 'ws:':
+		case 'wss:': {
+			if (typeof globalThis.WebSocket != 'function') {
+				throw new Error('WebSockets are not available')
+			}
+
+			const socket = new WebSocket(target)
+			await new Promise((resolve, reject) => {
+				socket.onopen = resolve
+				socket.onerror = () => reject(new Error(`cannot connect to \`${target}\``))
+			})
+
+			return channel(websocket(socket, options), options)
+		}
+
+		case 'tcp:': {
+			const net = builtin('net')
+			const connection = net.connect({
+				host: target.hostname.replace(/^\[|\]$/g, ''),
+				port: Number(target.port),
+			})
+
+			await new Promise((resolve, reject) => {
+				connection.once('connect', resolve)
+				connection.once('error', reject)
+			})
+
+			return channel(socket(connection, connection, options), options)
+		}
+
+		default:
+			throw new Error(`the protocol \`${target.protocol}\` is not supported`)
+	}
+}
+
+/**
+ * Accept TCP connections on the given port (only in Node), calling `accept`
+ * with a channel for each one; resolves once listening.
+ *
+ * Only connections from the same machine are accepted unless another `host` is
+ * given, like `0.0.0.0` for every interface.
+ */
+export function listen<T>(
+	port: number,
+	accept: (channel: Channel<T, Port>) => void,
+	options: Options & { host?: string } = {}
+): Promise<Listener> {
+	const net = builtin('net')
+	const accepted = new Set<Channel<T, Port>>()
+
+	const server = net.createServer((connection: NodeStream) => {
+		const accepting = channel<T>(socket(connection, connection, options), options)
+		const onclose = accepting.port.stream.onclose
+
+		accepted.add(accepting)
+		accepting.port.stream.onclose = () => {
+			accepted.delete(accepting)
+			onclose()
+		}
+
+		accept(accepting)
+	})
+
+	return new Promise((resolve, reject) => {
+		server.once('error', reject)
+		server.listen(port, options.host ?? '127.0.0.1', () =>
+			resolve({
+				port: server.address().port,
+
+				close() {
+					server.close()
+
+					for (const channel of accepted) {
+						channel.port.close()
+					}
+				},
+			})
+		)
+	})
+}
@@ -0,0 +1,208 @@
+import { live, Actor, LocalActor, Spawn, Signal, Reason } from './stage'
+
+/**
+ * How children are restarted when one of them exits.
+ */
+export enum Strategy {
+	/**
+	 * Only the child that exited is restarted.
+	 */
+	ONE_FOR_ONE,
+
+	/**
+	 * All children are stopped and restarted.
+	 */
+	ONE_FOR_ALL,
+
+	/**
+	 * The child that exited and every child started after it are stopped and
+	 * restarted.
+	 */
+	REST_FOR_ONE,
+}
+
+/**
+ * When a child is restarted.
+ */
+export enum Restart {
+	/**
+	 * The child is always restarted.
+	 */
+	PERMANENT,
+
+	/**
+	 * The child is restarted only if it exited abnormally.
+	 */
+	TRANSIENT,
+
+	/**
+	 * The child is never restarted.
+	 */
+	TEMPORARY,
+}
+
+/**
+ * The specification of a supervised child.
+ */
+export type Child<T = any> = {
+	/**
+	 * Identifier of the child within the supervisor.
+	 */
+	id: string
+
+	/**
+	 * The generator the child is spawned from.
+	 */
+	spawn: Spawn<T>
+
+	/**
+	 * Register the child under this name.
+	 */
+	name?: string
+
+	/**
+	 * Defaults to `Restart.PERMANENT`.
+	 */
+	restart?: Restart
+}
+
+export type Options = {
+	/**
+	 * Defaults to `Strategy.ONE_FOR_ONE`.
+	 */
+	strategy?: Strategy
+
+	/**
+	 * Maximum number of restarts within `period`, when exceeded the supervisor
+	 * stops all children and exits; defaults to 3.
+	 */
+	intensity?: number
+
+	/**
+	 * Length in milliseconds of the restart intensity window, defaults to 5000.
+	 */
+	period?: number
+
+	/**
+	 * Register the supervisor under this name.
+	 */
+	name?: string
+}
+
+/**
+ * A running child.
+ */
+type Running = {
+	spec: Child
+	actor?: LocalActor<any>
+	ref?: string
+}
+
+/**
+ * Create a supervisor that can be spawned like any other actor, this is how
+ * supervision trees are built.
+ *
+ * Children are started in order and restarted with the same address, so any
+ * handle to them (including ones resolved through their name) keeps working.
+ *
+ * ```ts
+ * supervisor.start([
+ *   { id: 'add', name: 'add', spawn: add },
+ *   { id: 'workers', spawn: supervisor.supervise(workers, { strategy: Strategy.ONE_FOR_ALL }) },
+ * ]);
+ * ```
+ */
+export function supervise(children: Child[], options: Options = {}): Spawn<Signal.Any> {
+	const strategy = options.strategy ?? Strategy.ONE_FOR_ONE
+	const intensity = options.intensity ?? 3
+	const period = options.period ?? 5000
+
+	return async function* (self: Actor<Signal.Any>) {
+		const stage = live()
+		const running: Running[] = children.map((spec) => ({ spec }))
+		let restarts: number[] = []
+
+		const start = (child: Running) => {
+			const options = { id: child.actor?.address.actor }
+
+			child.actor = child.spec.name
+				? stage.register(child.spec.name, child.spec.spawn, options)
+				: stage.spawn(child.spec.spawn, options)
+			child.ref = self.monitor(child.actor)
+		}
+
+		const stop = async (child: Running) => {
+			if (child.ref) {
+				self.demonitor(child.ref)
+				child.ref = undefined
+			}
+
+			await child.actor?.exit(Reason.SHUTDOWN)
+		}
+
+		try {
+			for (const child of running) {
+				start(child)
+			}
+
+			while (true) {
+				const down = (yield (msg: Signal.Any) =>
+					Signal.isDown(msg) && running.some((child) => child.ref == msg.ref)) as Signal.Down
+
+				const index = running.findIndex((child) => child.ref == down.ref)
+				const child = running[index]
+				child.ref = undefined
+
+				const restart = child.spec.restart ?? Restart.PERMANENT
+				if (
+					restart == Restart.TEMPORARY ||
+					(restart == Restart.TRANSIENT &&
+						(down.reason == Reason.NORMAL || down.reason == Reason.SHUTDOWN))
+				) {
+					continue
+				}
+
+				const now = stage.scheduler.now()
+				restarts = restarts.filter((at) => now - at < period)
+				restarts.push(now)
+
+				if (restarts.length > intensity) {
+					throw new Error('the supervisor reached its maximum restart intensity')
+				}
+
+				const affected =
+					strategy == Strategy.ONE_FOR_ALL
+						? running
+						: strategy == Strategy.REST_FOR_ONE
+						? running.slice(index)
+						: [child]
+
+				// Stop in reverse start order, then start again in order.
+				for (const other of [...affected].reverse()) {
+					if (other !== child) {
+						await stop(other)
+					}
+				}
+
+				for (const other of affected) {
+					if (other === child || (other.spec.restart ?? Restart.PERMANENT) != Restart.TEMPORARY) {
+						start(other)
+					}
+				}
+			}
+		} finally {
+			for (const child of [...running].reverse()) {
+				await stop(child)
+			}
+		}
+	}
+}
+
+/**
+ * Spawn a supervisor for the given children on the current stage.
+ */
+export function start(children: Child[], options: Options = {}): Actor<Signal.Any> {
+	const spawn = supervise(children, options)
+
+	return options.name ? live().register(options.name, spawn) : live().spawn(spawn)
+}
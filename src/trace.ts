@@ -0,0 +1,367 @@
+import * as _ from 'lodash'
+import { v4 as uuid } from 'uuid'
+
+/**
+ * What travels along with a message so the spans it causes on other stages
+ * know their parent.
+ */
+export type Context = {
+	trace: string
+	span: string
+}
+
+/**
+ * What a span stands for: a message leaving its stage, hopping through
+ * another one, or being put in the mailbox of an actor; or a call on a remote
+ * value, and the handling of it on the other side.
+ */
+export type Kind = 'send' | 'forward' | 'receive' | 'call' | 'serve'
+
+export type Attributes = Record<string, string | number | boolean>
+
+/**
+ * A finished span, times are in milliseconds since the epoch; spans are plain
+ * data so they can be sent to other stages.
+ */
+export type Span = {
+	trace: string
+	span: string
+	parent?: string
+	name: string
+	kind: Kind
+	stage: string
+	start: number
+	end: number
+	attributes: Attributes
+}
+
+export type Options = {
+	/**
+	 * How many finished spans to keep, the oldest are dropped first; defaults to
+	 * 10000.
+	 */
+	capacity?: number
+}
+
+const LIVE = Symbol('shumei.trace.live')
+
+const KINDS: Kind[] = ['send', 'forward', 'receive', 'call', 'serve']
+
+/**
+ * Current time in milliseconds since the epoch, with sub-millisecond precision.
+ */
+function now(): number {
+	return performance.timeOrigin + performance.now()
+}
+
+/**
+ * A span that has not finished yet.
+ */
+export class Active {
+	private ended: boolean
+
+	constructor(private tracer: Tracer, private span: Span) {
+		this.ended = false
+	}
+
+	get context(): Context {
+		return { trace: this.span.trace, span: this.span.span }
+	}
+
+	/**
+	 * Finish the span, adding the given attributes; only the first call counts.
+	 */
+	end(attributes: Attributes = {}): void {
+		if (this.ended) {
+			return
+		}
+
+		this.ended = true
+		this.tracer.record({
+			...this.span,
+			end: now(),
+			attributes: { ...this.span.attributes, ...attributes },
+		})
+	}
+}
+
+/**
+ * Records spans, one per process and shared by every stage in it; it does
+ * nothing until enabled.
+ */
+export class Tracer {
+	/**
+	 * Whether spans are recorded, contexts are passed along either way.
+	 */
+	enabled: boolean
+
+	/**
+	 * The stage spans are recorded on by default, the first one created.
+	 */
+	stage: string
+
+	/**
+	 * The context of the code running right now, if any.
+	 */
+	current?: Context
+
+	private capacity: number
+	private spans: Span[]
+	private listeners: Set<(span: Span) => void>
+
+	static live(): Tracer {
+		if (!globalThis[LIVE]) {
+			globalThis[LIVE] = new Tracer()
+		}
+
+		return globalThis[LIVE]
+	}
+
+	constructor() {
+		this.enabled = false
+		this.stage = ''
+		this.capacity = 10000
+		this.spans = []
+		this.listeners = new Set()
+	}
+
+	/**
+	 * Start recording spans.
+	 */
+	enable(options: Options = {}): void {
+		this.enabled = true
+		this.capacity = options.capacity ?? this.capacity
+		this.spans.splice(0, this.spans.length - this.capacity)
+	}
+
+	/**
+	 * Stop recording spans, the ones already recorded are kept.
+	 */
+	disable(): void {
+		this.enabled = false
+	}
+
+	/**
+	 * Start a span, a child of `parent` if given or the root of a new trace;
+	 * nothing is started unless the tracer is enabled.
+	 */
+	start(
+		kind: Kind,
+		name: string,
+		parent?: Context,
+		attributes: Attributes = {},
+		stage = this.stage
+	): Active | undefined {
+		if (!this.enabled) {
+			return undefined
+		}
+
+		return new Active(this, {
+			trace: parent?.trace ?? uuid().replace(/-/g, ''),
+			span: uuid().replace(/-/g, '').slice(0, 16),
+			parent: parent?.span,
+			name,
+			kind,
+			stage,
+			start: now(),
+			end: 0,
+			attributes,
+		})
+	}
+
+	/**
+	 * Record a finished span.
+	 */
+	record(span: Span): void {
+		this.spans.push(span)
+		this.spans.splice(0, this.spans.length - this.capacity)
+
+		for (const listener of this.listeners) {
+			listener(span)
+		}
+	}
+
+	/**
+	 * Run a function with the given context as the current one.
+	 *
+	 * Only the synchronous part of the function sees it, anything running after
+	 * an `await` does not.
+	 */
+	within<T>(context: Context | undefined, fn: () => T): T {
+		const previous = this.current
+		this.current = context
+
+		try {
+			return fn()
+		} finally {
+			this.current = previous
+		}
+	}
+
+	/**
+	 * Call the listener with every span once it finishes, returns a function
+	 * removing the listener.
+	 */
+	on(listener: (span: Span) => void): () => void {
+		this.listeners.add(listener)
+		return () => this.listeners.delete(listener)
+	}
+
+	/**
+	 * Take a copy of the recorded spans.
+	 */
+	snapshot(): Span[] {
+		return _.cloneDeep(this.spans)
+	}
+
+	/**
+	 * Forget every recorded span.
+	 */
+	clear(): void {
+		this.spans = []
+	}
+}
+
+export function live(): Tracer {
+	return Tracer.live()
+}
+
+/**
+ * @see Tracer.enable
+ */
+export function enable(options?: Options): void {
+	live().enable(options)
+}
+
+/**
+ * @see Tracer.disable
+ */
+export function disable(): void {
+	live().disable()
+}
+
+/**
+ * @see Tracer.on
+ */
+export function on(listener: (span: Span) => void): () => void {
+	return live().on(listener)
+}
+
+/**
+ * Convert spans to the Chrome trace event format, loadable in
+ * `chrome://tracing` and Perfetto.
+ *
+ * Every stage is a process and every kind of span a thread in it, and flow
+ * arrows go from each span to its children.
+ */
+export function chrome(spans: Span[]): { traceEvents: object[]; displayTimeUnit: 'ms' } {
+	const stages = _.uniq(spans.map((span) => span.stage))
+	const pid = (span: Span) => stages.indexOf(span.stage) + 1
+	const tid = (span: Span) => KINDS.indexOf(span.kind) + 1
+	const byId = _.keyBy(spans, 'span')
+	const events: object[] = []
+
+	for (const stage of stages) {
+		const id = stages.indexOf(stage) + 1
+		events.push({ ph: 'M', name: 'process_name', pid: id, tid: 0, args: { name: stage } })
+
+		for (const kind of KINDS) {
+			events.push({
+				ph: 'M',
+				name: 'thread_name',
+				pid: id,
+				tid: KINDS.indexOf(kind) + 1,
+				args: { name: kind },
+			})
+		}
+	}
+
+	for (const span of _.sortBy(spans, 'start')) {
+		events.push({
+			ph: 'X',
+			name: span.name,
+			cat: span.kind,
+			pid: pid(span),
+			tid: tid(span),
+			ts: span.start * 1000,
+			dur: (span.end - span.start) * 1000,
+			args: { trace: span.trace, span: span.span, parent: span.parent, ...span.attributes },
+		})
+
+		const parent = span.parent ? byId[span.parent] : undefined
+		if (parent) {
+			const flow = { name: 'message', cat: 'flow', id: span.span }
+			events.push({ ...flow, ph: 's', pid: pid(parent), tid: tid(parent), ts: parent.start * 1000 })
+			events.push({
+				...flow,
+				ph: 'f',
+				bp: 'e',
+				pid: pid(span),
+				tid: tid(span),
+				ts: span.start * 1000,
+			})
+		}
+	}
+
+	return { traceEvents: events, displayTimeUnit: 'ms' }
+}
+
+/**
+ * OTLP span kinds by span kind.
+ */
+const OTLP_KINDS: Record<Kind, number> = {
+	forward: 1,
+	serve: 2,
+	call: 3,
+	send: 4,
+	receive: 5,
+}
+
+/**
+ * Convert spans to the OTLP JSON encoding of an `ExportTraceServiceRequest`,
+ * ready to be posted to the `/v1/traces` endpoint of a collector.
+ *
+ * Every stage is a resource, with the stage id as `service.instance.id`.
+ */
+export function otlp(spans: Span[], service = 'shumei'): object {
+	const nanos = (ms: number) => (BigInt(Math.round(ms * 1000)) * BigInt(1000)).toString()
+
+	return {
+		resourceSpans: _.map(_.groupBy(spans, 'stage'), (spans, stage) => ({
+			resource: {
+				attributes: attributes({ 'service.name': service, 'service.instance.id': stage }),
+			},
+			scopeSpans: [
+				{
+					scope: { name: 'shumei' },
+					spans: spans.map((span) => ({
+						traceId: span.trace,
+						spanId: span.span,
+						parentSpanId: span.parent ?? '',
+						name: span.name,
+						kind: OTLP_KINDS[span.kind],
+						startTimeUnixNano: nanos(span.start),
+						endTimeUnixNano: nanos(span.end),
+						attributes: attributes(span.attributes),
+					})),
+				},
+			],
+		})),
+	}
+}
+
+/**
+ * Convert attributes to OTLP key-value pairs.
+ */
+function attributes(attributes: Attributes): object[] {
+	return _.map(attributes, (value, key) => ({
+		key,
+		value: _.isBoolean(value)
+			? { boolValue: value }
+			: _.isNumber(value)
+			? Number.isInteger(value)
+				? { intValue: String(value) }
+				: { doubleValue: value }
+			: { stringValue: value },
+	}))
+}
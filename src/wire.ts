@@ -1,9 +1,11 @@
 import * as _ from 'lodash'
+import * as metrics from './metrics'
 
 /**
- * Types that can be serialized through a `postMessage`.
+ * Types that can be serialized to bytes as well, and so sent over streams; see
+ * `binary`.
  */
-export type Clonable =
+export type Serializable =
 	| bigint
 	| boolean
 	| number
@@ -12,18 +14,29 @@ export type Clonable =
 	| undefined
 	| RegExp
 	| Date
+	| ArrayBuffer
+	| ArrayBufferView
+	| ImageData
+	| Serializable[]
+	| { [name: string]: Serializable }
+	| Map<Serializable, Serializable>
+	| Set<Serializable>
+	| Error
+
+/**
+ * Types that can be serialized through a `postMessage`, blobs, files, image
+ * bitmaps and transferables only go through ports and not over streams.
+ */
+export type Clonable =
+	| Serializable
 	| Blob
 	| File
 	| FileList
-	| ArrayBuffer
-	| ArrayBufferView
 	| ImageBitmap
-	| ImageData
 	| Clonable[]
 	| { [name: string]: Clonable }
 	| Map<Clonable, Clonable>
 	| Set<Clonable>
-	| Error
 	| Transferable
 
 /**
@@ -32,17 +45,20 @@ export type Clonable =
 export const enum Type {
 	PLAIN,
 	ENCODED,
+	REFERENCE,
 }
 
 const MARKER = Symbol('shumei.wire')
 
 /**
- * Values that do not need any encoding.
+ * Values that do not need any encoding, the `id` is only there when the value
+ * is referenced again further on.
  */
 export type Plain = {
 	[MARKER]: Transferable[]
 	type: Type.PLAIN
 	value: Clonable
+	id?: number
 }
 
 /**
@@ -53,9 +69,20 @@ export type Encoded = {
 	type: Type.ENCODED
 	codec: string
 	value: Clonable
+	id?: number
 }
 
-export type Value = Plain | Encoded
+/**
+ * Values appearing more than once, every appearance after the first one is a
+ * reference to the `id` of the first.
+ */
+export type Reference = {
+	[MARKER]: Transferable[]
+	type: Type.REFERENCE
+	id: number
+}
+
+export type Value = Plain | Encoded | Reference
 
 export interface Options {
 	codecs?: Record<string, UnknownCodec>
@@ -88,6 +115,253 @@ export function isEncoded(value: any): value is Value {
 	return _.isObject(value) && !!value[MARKER]
 }
 
+/**
+ * The codecs of classes registered with `serializable` are named after the
+ * class with this prefix.
+ */
+const CLASS = 'class:'
+
+/**
+ * A class that can be registered with `serializable`, with an optional
+ * `fromWire` hook to revive instances (and `toWire` on instances).
+ */
+export interface Class<T> {
+	new (...args: any[]): T
+	name: string
+	fromWire?(data: any): T
+}
+
+export type SerializableOptions<T> = {
+	/**
+	 * The name every side knows the class by, defaults to the name of the class;
+	 * give one when the code gets minified.
+	 */
+	name?: string
+
+	/**
+	 * Turn an instance into data, defaults to the `toWire` method of the instance
+	 * if it has one, or its own properties otherwise.
+	 */
+	toWire?(value: T): any
+
+	/**
+	 * Turn data back into an instance, defaults to the static `fromWire` method
+	 * of the class if it has one, or a new object with the class as prototype
+	 * and the data as properties otherwise.
+	 */
+	fromWire?(data: any): T
+}
+
+type ClassCodec<T> = Codec<T, Value, T> & {
+	class: Class<T>
+
+	/**
+	 * Give an instance created before its data is decoded its properties, only
+	 * for classes revived the default way, so their instances can be in cycles.
+	 */
+	revive?(instance: T, value: Value, wire: Wire): void
+}
+
+/**
+ * Whether the codec is the one of a class registered with `serializable`.
+ */
+function isClassCodec(codec: UnknownCodec): codec is ClassCodec<unknown> {
+	return 'class' in codec
+}
+
+/**
+ * Register a class so its instances come out of `decode` as instances again,
+ * on every wire; the other side has to register it under the same name.
+ * Instances of a class without a `fromWire` hook can be part of cycles.
+ *
+ * ```ts
+ * class Point {
+ *   constructor(public x: number, public y: number) {}
+ * }
+ *
+ * wire.serializable(Point);
+ * ```
+ */
+export function serializable<T>(Class: Class<T>, options: SerializableOptions<T> = {}): Class<T> {
+	register(codecs, Class, options)
+	return Class
+}
+
+/**
+ * Add the codec of a class to a registry, unless another class took the name.
+ */
+function register<T>(
+	registry: Map<string, UnknownCodec>,
+	Class: Class<T>,
+	options: SerializableOptions<T>
+): void {
+	const name = options.name ?? Class.name
+	if (!name) {
+		throw new Error('the class has no name, give it one with the `name` option')
+	}
+
+	const existing = registry.get(CLASS + name) as ClassCodec<unknown> | undefined
+	if (existing && existing.class !== Class) {
+		throw new Error(`the class name \`${name}\` is already taken`)
+	}
+
+	const revive = (instance: T, value: Value, wire: Wire): void => {
+		for (const [k, v] of Object.entries(wire.decode(value) ?? {})) {
+			define(instance as object, k, v)
+		}
+	}
+
+	const codec: ClassCodec<T> = {
+		name: CLASS + name,
+		class: Class,
+
+		canHandle: (value: unknown): value is T =>
+			_.isObject(value) && Object.getPrototypeOf(value) === Class.prototype,
+
+		encode: (value, wire) => {
+			const data = options.toWire
+				? options.toWire(value)
+				: _.isObject(value) && 'toWire' in value && _.isFunction(value.toWire)
+				? value.toWire()
+				: { ...value }
+
+			const encoded = wire.encode(data)
+			return [encoded, encoded[MARKER]]
+		},
+
+		decode: (value, wire) => {
+			const data = wire.decode(value)
+
+			if (options.fromWire) {
+				return options.fromWire(data)
+			}
+
+			if (_.isFunction(Class.fromWire)) {
+				return Class.fromWire(data)
+			}
+
+			const instance = Object.create(Class.prototype)
+			revive(instance, value, wire)
+
+			return instance
+		},
+
+		revive: options.fromWire || _.isFunction(Class.fromWire) ? undefined : revive,
+	}
+
+	registry.set(codec.name, codec as UnknownCodec)
+}
+
+/**
+ * What an instance of a class that was not registered on this side comes out
+ * of `decode` as, it is encoded back the way it came so it can still be passed
+ * on to a side that knows the class.
+ */
+export class Unregistered {
+	constructor(public name: string, public data: any) {}
+}
+
+/**
+ * Find the first instance of an unregistered class in a decoded value.
+ */
+export function unregistered(value: any, seen = new Set<object>()): Unregistered | undefined {
+	if (value instanceof Unregistered) {
+		return value
+	}
+
+	if (!_.isObject(value) || seen.has(value) || isOpaque(value)) {
+		return undefined
+	}
+
+	seen.add(value)
+
+	const values =
+		value instanceof Map
+			? [...value.keys(), ...value.values()]
+			: value instanceof Set
+			? [...value]
+			: Object.values(value)
+
+	for (const v of values) {
+		const found = unregistered(v, seen)
+		if (found) {
+			return found
+		}
+	}
+
+	return undefined
+}
+
+/**
+ * Create a plain value by hand, like when reading one back from bytes.
+ */
+export function plain(value: Clonable, transfer: Transferable[] = []): Plain {
+	return { [MARKER]: transfer, type: Type.PLAIN, value }
+}
+
+/**
+ * Create a value encoded by the given codec by hand, like when reading one back
+ * from bytes.
+ */
+export function encoded(codec: string, value: Clonable, transfer: Transferable[] = []): Encoded {
+	return { [MARKER]: transfer, type: Type.ENCODED, codec, value }
+}
+
+/**
+ * Create a reference by hand, like when reading one back from bytes.
+ */
+export function reference(id: number): Reference {
+	return { [MARKER]: [], type: Type.REFERENCE, id }
+}
+
+/**
+ * Stands in for values being decoded by a codec, until they are.
+ */
+const DECODING = Symbol('shumei.wire.decoding')
+
+/**
+ * Objects cloned as they are, without looking inside.
+ */
+const OPAQUE = [
+	'Date',
+	'RegExp',
+	'ArrayBuffer',
+	'SharedArrayBuffer',
+	'Blob',
+	'FileList',
+	'ImageData',
+	'ImageBitmap',
+	'MessagePort',
+	'ReadableStream',
+	'WritableStream',
+	'TransformStream',
+	'OffscreenCanvas',
+]
+
+function isOpaque(value: object): boolean {
+	return (
+		_.isError(value) ||
+		ArrayBuffer.isView(value) ||
+		_.isBoolean(value) ||
+		_.isNumber(value) ||
+		_.isString(value) ||
+		OPAQUE.some((name) => _.isFunction(globalThis[name]) && value instanceof globalThis[name])
+	)
+}
+
+/**
+ * Set a property by defining it, so a `__proto__` key stays a key instead of
+ * replacing the prototype.
+ */
+function define(object: object, key: string, value: unknown): void {
+	Object.defineProperty(object, key, {
+		value,
+		enumerable: true,
+		writable: true,
+		configurable: true,
+	})
+}
+
 export interface Wired {
 	wire?: Wire
 }
@@ -112,9 +386,33 @@ export function decode(value: Value): any {
 	return live().decode(value)
 }
 
+const encodes = metrics.histogram('shumei_wire_encode_seconds', 'Time spent encoding values.')
+const decodes = metrics.histogram('shumei_wire_decode_seconds', 'Time spent decoding values.')
+const transfers = metrics.counter(
+	'shumei_wire_transferables_total',
+	'Number of values transferred instead of cloned.'
+)
+
 export class Wire {
 	private codecs: Map<string, Codec<unknown, Clonable, unknown>>
 	private transfers: WeakMap<any, Transferable[]>
+	private depth: { encode: number; decode: number }
+
+	/**
+	 * The nodes of the objects encoded so far and how many got an `id`, for the
+	 * whole value being encoded, and the nodes still being encoded by a codec
+	 * that cannot have them contain themselves.
+	 */
+	private encoded: {
+		nodes: Map<object, Plain | Encoded>
+		ids: number
+		unfinished: Set<Encoded>
+	}
+
+	/**
+	 * The objects decoded so far by `id`, for the whole value being decoded.
+	 */
+	private decoded: Map<number, any>
 
 	static live(): Wire {
 		if (!globalThis[MARKER]) {
@@ -127,6 +425,9 @@ export class Wire {
 	constructor(public options?: Options) {
 		this.codecs = new Map(codecs)
 		this.transfers = new WeakMap()
+		this.depth = { encode: 0, decode: 0 }
+		this.encoded = { nodes: new Map(), ids: 0, unfinished: new Set() }
+		this.decoded = new Map()
 	}
 
 	codec<E, C extends Clonable, D>(codec: Codec<E, C, D>): Codec<E, C, D> {
@@ -134,9 +435,24 @@ export class Wire {
 		return codec
 	}
 
+	/**
+	 * Register a class on this wire only.
+	 *
+	 * @see serializable
+	 */
+	serializable<T>(Class: Class<T>, options: SerializableOptions<T> = {}): Class<T> {
+		register(this.codecs, Class, options)
+		return Class
+	}
+
+	/**
+	 * Find the codec with the given name, or the one that can handle the given
+	 * value; codecs registered with `codec` after the wire was created are
+	 * found as well, unless the wire has its own by the same name.
+	 */
 	codecFor<E, C extends Clonable, D>(value: string | any): Codec<E, C, D> | null {
 		if (_.isString(value)) {
-			return this.codecs.get(value) as Codec<E, C, D>
+			return (this.codecs.get(value) ?? codecs.get(value)) as Codec<E, C, D>
 		}
 
 		for (const codec of this.codecs.values()) {
@@ -145,6 +461,12 @@ export class Wire {
 			}
 		}
 
+		for (const codec of codecs.values()) {
+			if (!this.codecs.has(codec.name) && codec.canHandle(value)) {
+				return codec as Codec<E, C, D>
+			}
+		}
+
 		return null
 	}
 
@@ -160,7 +482,7 @@ export class Wire {
 	 * Get any transferables for the given value.
 	 */
 	transferable(value: any): Transferable[] {
-		const transfer = this.transfers.get(value) || []
+		const transfer = [...(this.transfers.get(value) || [])]
 
 		if (isEncoded(value)) {
 			transfer.push(...value[MARKER])
@@ -171,77 +493,238 @@ export class Wire {
 
 	/**
 	 * Encode a value.
+	 *
+	 * Objects appearing more than once in the value, cycles included, are only
+	 * encoded once and come out of `decode` as a single object again.
 	 */
 	encode(value: any): Value {
+		// Only whole values are measured, not the values nested in them.
+		if (this.depth.encode > 0) {
+			return this.encodeValue(value)
+		}
+
+		this.depth.encode++
+
+		try {
+			const encoded = encodes.time({}, () => this.encodeValue(value))
+			encoded[MARKER] = _.uniq(encoded[MARKER])
+			transfers.inc({}, encoded[MARKER].length)
+
+			return encoded
+		} finally {
+			this.depth.encode--
+			this.encoded = { nodes: new Map(), ids: 0, unfinished: new Set() }
+		}
+	}
+
+	private encodeValue(value: any): Value {
 		if (isEncoded(value)) {
 			return value
 		}
 
-		if (_.isObject(value)) {
-			const codec = this.codecFor(value)
+		if (!_.isObject(value)) {
+			return plain(value as Clonable, this.transferable(value))
+		}
 
-			if (codec) {
-				const [encoded, transfer] = codec.encode(value, this)
+		const seen = this.encoded.nodes.get(value)
+		if (seen) {
+			if (this.encoded.unfinished.has(seen as Encoded)) {
+				throw new Error('a value encoded by a codec cannot contain itself')
+			}
 
-				return {
-					[MARKER]: transfer,
-					type: Type.ENCODED,
-					codec: codec.name,
-					value: encoded,
-				}
+			seen.id ??= this.encoded.ids++
+			return reference(seen.id)
+		}
+
+		// Instances of classes unknown here go on as they came.
+		if (value instanceof Unregistered) {
+			const node = encoded(CLASS + value.name, undefined)
+			this.encoded.nodes.set(value, node)
+
+			const data = this.encode(value.data)
+			;[node.value, node[MARKER]] = [data, data[MARKER]]
+
+			return node
+		}
+
+		const codec = this.codecFor(value)
+		if (codec) {
+			const node = encoded(codec.name, undefined)
+			this.encoded.nodes.set(value, node)
+
+			// Only instances revived the default way exist before their data does.
+			const cyclic = isClassCodec(codec) && !!codec.revive
+			if (!cyclic) {
+				this.encoded.unfinished.add(node)
 			}
+
+			;[node.value, node[MARKER]] = codec.encode(value, this)
+			this.encoded.unfinished.delete(node)
+
+			return node
 		}
 
-		let encoding = value
-		const transfer = this.transferable(value)
+		const node = plain(value as Clonable, this.transferable(value))
+		this.encoded.nodes.set(value, node)
 
-		if (_.isObject(value)) {
-			encoding = {}
+		if (isOpaque(value)) {
+			return node
+		}
 
-			for (const [k, v] of Object.entries(value)) {
-				const encoded = this.encode(v)
-				encoding[k] = encoded
-				transfer.push(...encoded[MARKER])
+		// Only containers are looked into, their contents get encoded in place.
+		const add = (v: any) => {
+			const encoded = this.encode(v)
+			node[MARKER].push(...encoded[MARKER])
+
+			return encoded
+		}
+
+		if (_.isArray(value)) {
+			node.value = [] as Clonable[]
+
+			for (const v of value) {
+				node.value.push(add(v))
 			}
-		} else if (_.isArray(value)) {
-			encoding = []
+		} else if (value instanceof Map) {
+			node.value = new Map<Clonable, Clonable>()
+
+			for (const [k, v] of value) {
+				node.value.set(add(k), add(v))
+			}
+		} else if (value instanceof Set) {
+			node.value = new Set<Clonable>()
 
 			for (const v of value) {
-				const encoded = this.encode(v)
-				encoding.push(encoded)
-				transfer.push(...encoded[MARKER])
+				node.value.add(add(v))
+			}
+		} else {
+			node.value = {}
+
+			for (const [k, v] of Object.entries(value)) {
+				define(node.value, k, add(v))
 			}
 		}
 
-		return { [MARKER]: transfer, type: Type.PLAIN, value: encoding }
+		return node
 	}
 
 	/**
 	 * Decode a value.
 	 */
 	decode(wire: Value): any {
+		if (this.depth.decode > 0) {
+			return this.decodeValue(wire)
+		}
+
+		this.depth.decode++
+
+		try {
+			return decodes.time({}, () => this.decodeValue(wire))
+		} finally {
+			this.depth.decode--
+			this.decoded = new Map()
+		}
+	}
+
+	private decodeValue(wire: Value): any {
 		switch (wire.type) {
-			case Type.ENCODED:
-				return this.codecFor(wire.codec)!.decode(wire.value as any, this)
+			case Type.REFERENCE: {
+				if (!this.decoded.has(wire.id)) {
+					throw new Error(`the reference \`${wire.id}\` is unknown`)
+				}
+
+				const decoded = this.decoded.get(wire.id)
+				if (decoded === DECODING) {
+					throw new Error('a value encoded by a codec cannot contain itself')
+				}
+
+				return decoded
+			}
+
+			case Type.ENCODED: {
+				const codec = this.codecFor(wire.codec)
+
+				if (!codec) {
+					if (!wire.codec.startsWith(CLASS)) {
+						throw new Error(`the codec \`${wire.codec}\` is unknown`)
+					}
+
+					const unknown = this.identify(
+						wire,
+						new Unregistered(wire.codec.slice(CLASS.length), null)
+					)
+					unknown.data = this.decode(wire.value as Value)
+
+					return unknown
+				}
+
+				if (isClassCodec(codec) && codec.revive) {
+					const instance = this.identify(wire, Object.create(codec.class.prototype))
+					codec.revive(instance, wire.value as Value, this)
+
+					return instance
+				}
+
+				this.identify(wire, DECODING)
+				return this.identify(wire, codec.decode(wire.value, this))
+			}
 
 			case Type.PLAIN:
-				let decoding = wire.value
+				const value = wire.value
 
-				if (_.isObject(wire.value)) {
-					decoding = {}
+				if (_.isArray(value)) {
+					const decoding = this.identify(wire, [])
 
-					for (const [k, v] of Object.entries(wire.value)) {
-						decoding[k] = this.decode(v)
+					for (const v of value) {
+						decoding.push(this.decode(v as Value))
 					}
-				} else if (_.isArray(wire.value)) {
-					decoding = []
 
-					for (const v of wire.value) {
-						decoding.push(this.decode(v))
+					return decoding
+				}
+
+				if (value instanceof Map) {
+					const decoding = this.identify(wire, new Map())
+
+					for (const [k, v] of value) {
+						decoding.set(this.decode(k as Value), this.decode(v as Value))
 					}
+
+					return decoding
 				}
 
-				return decoding
+				if (value instanceof Set) {
+					const decoding = this.identify(wire, new Set())
+
+					for (const v of value) {
+						decoding.add(this.decode(v as Value))
+					}
+
+					return decoding
+				}
+
+				if (_.isObject(value) && !isOpaque(value)) {
+					const decoding = this.identify(wire, {})
+
+					for (const [k, v] of Object.entries(value)) {
+						define(decoding, k, this.decode(v as Value))
+					}
+
+					return decoding
+				}
+
+				return this.identify(wire, value)
 		}
 	}
+
+	/**
+	 * Remember the decoded object if the value is referenced again, before
+	 * decoding what is inside so cycles find it.
+	 */
+	private identify<T>(wire: Plain | Encoded, decoded: T): T {
+		if (wire.id !== undefined) {
+			this.decoded.set(wire.id, decoded)
+		}
+
+		return decoded
+	}
 }
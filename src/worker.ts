@@ -1,23 +1,135 @@
 import * as _ from 'lodash'
 import { Channel as Queue } from 'queueable'
-import { Channel } from './channel'
+import { Channel, PortLike } from './channel'
+import { builtin, isNode } from './node'
 
-export class Dedicated<T> extends Channel<T, Worker> {
-	constructor(public worker: Worker) {
+/**
+ * Anything that behaves like a `Worker`.
+ */
+export interface WorkerLike extends PortLike {
+	terminate(): void
+	addEventListener(type: 'error', listener: (ev: any) => any): void
+}
+
+/**
+ * Anything that behaves like a `SharedWorker`.
+ */
+export interface SharedWorkerLike {
+	port: PortLike
+	addEventListener(type: 'error', listener: (ev: any) => any): void
+}
+
+/**
+ * Something that spawns workers, stages spawn theirs through one.
+ */
+export interface Factory {
+	dedicated<T>(source: URL | string): Dedicated<T>
+	shared<T>(source: URL | string): Shared<T>
+}
+
+/**
+ * The parts of Node's `worker_threads` module used here.
+ */
+interface Threads {
+	isMainThread: boolean
+	parentPort: PortLike | null
+	Worker: { new (source: string | URL, options?: { eval?: boolean }): NodeWorker }
+}
+
+/**
+ * The parts of a Node `Worker` used here.
+ */
+interface NodeWorker {
+	postMessage(message: any, transfer?: Transferable[]): void
+	on(event: string, listener: (...args: any[]) => void): void
+	terminate(): Promise<number>
+}
+
+/**
+ * A Node `Worker` adapted to look like a web `Worker`.
+ */
+export class Thread implements WorkerLike {
+	onmessage: (ev: MessageEvent) => any
+	onmessageerror: (ev: MessageEvent) => any
+
+	constructor(public thread: NodeWorker) {
+		this.onmessage = () => {}
+		this.onmessageerror = () => {}
+
+		thread.on('message', (data) => this.onmessage(new MessageEvent('message', { data })))
+		thread.on('messageerror', (data) =>
+			this.onmessageerror(new MessageEvent('messageerror', { data }))
+		)
+	}
+
+	postMessage(message: any, transfer: Transferable[]): void {
+		this.thread.postMessage(message, transfer)
+	}
+
+	terminate(): void {
+		this.thread.terminate()
+	}
+
+	/**
+	 * Listen for errors, a thread exiting counts as one since it is as gone as a
+	 * failed worker.
+	 */
+	addEventListener(_type: 'error', listener: (ev: any) => any): void {
+		this.thread.on('error', (error) => listener({ type: 'error', error, message: String(error) }))
+		this.thread.on('exit', (code) =>
+			listener({ type: 'error', message: `the thread exited with code ${code}` })
+		)
+	}
+}
+
+export class Dedicated<T> extends Channel<T, WorkerLike> {
+	constructor(public worker: WorkerLike) {
 		super(worker)
+
+		// A worker that failed is as good as gone.
+		worker.addEventListener('error', () => this.terminate())
+	}
+
+	/**
+	 * Terminate the worker and close the channel.
+	 */
+	terminate() {
+		this.worker.terminate()
+		this.close()
 	}
 }
 
-export class Shared<T> extends Channel<T> {
-	constructor(public worker: SharedWorker) {
+export class Shared<T> extends Channel<T, PortLike> {
+	constructor(public worker: SharedWorkerLike) {
 		super(worker.port)
+
+		worker.addEventListener('error', () => this.close())
 	}
 }
 
 /**
  * Spawn a dedicated worker.
+ *
+ * In Node the worker is a thread, and `source` can also be a path to a file;
+ * strings that are not paths to a file are run as code.
  */
 export function dedicated<T>(source: URL | string): Dedicated<T> {
+	const node = threads()
+	if (node) {
+		if (source instanceof URL) {
+			return new Dedicated(new Thread(new node.Worker(source)))
+		}
+
+		const path = builtin('path').resolve(source)
+		return new Dedicated(
+			new Thread(
+				builtin('fs').existsSync(path)
+					? new node.Worker(path)
+					: new node.Worker(source, { eval: true })
+			)
+		)
+	}
+
 	if (!(source instanceof URL)) {
 		source = URL.createObjectURL(new Blob([source]))
 	}
@@ -29,7 +141,7 @@ export function dedicated<T>(source: URL | string): Dedicated<T> {
  * Spawn a shared worker.
  */
 export function shared<T>(source: URL | string): Shared<T> {
-	if (!isTab(self)) {
+	if (!isTab(globalThis)) {
 		throw new Error('this function can only be called in a `Window`.')
 	}
 
@@ -41,16 +153,25 @@ export function shared<T>(source: URL | string): Shared<T> {
 }
 
 /**
- * Get a channel for the current `Worker`.
+ * The factory spawning real workers.
+ */
+export const factory: Factory = { dedicated, shared }
+
+/**
+ * Get a channel for the current `Worker`, or Node thread.
  *
  * This function can only be called once per worker.
  */
-export function channel<T>(): Channel<T, DedicatedWorkerGlobalScope> {
-	if (!isDedicated(self)) {
+export function channel<T>(): Channel<T, PortLike> {
+	if (isThread()) {
+		return new Channel(threads()!.parentPort!)
+	}
+
+	if (!isDedicated(globalThis)) {
 		throw new Error('this function can only be called in a `Worker`.')
 	}
 
-	return new Channel(self)
+	return new Channel(globalThis)
 }
 
 /**
@@ -59,13 +180,14 @@ export function channel<T>(): Channel<T, DedicatedWorkerGlobalScope> {
  * This function can only be called once per worker.
  */
 export function channels<T>(): AsyncIterableIterator<Channel<T>> {
-	if (!isShared(self)) {
+	const scope = globalThis
+	if (!isShared(scope)) {
 		throw new Error('this function can only be called in a `SharedWorker`.')
 	}
 
 	const channel = new Queue<Channel<T>>()
 
-	self.addEventListener('connect', (e) => {
+	scope.addEventListener('connect', (e) => {
 		for (const port of e.ports) {
 			channel.push(new Channel(port))
 		}
@@ -99,3 +221,18 @@ export function isShared(self: unknown): self is SharedWorkerGlobalScope {
 		_.isFunction(self['SharedWorkerGlobalScope']) && self instanceof self['SharedWorkerGlobalScope']
 	)
 }
+
+/**
+ * Check whether this is a Node thread other than the main one.
+ */
+export function isThread(): boolean {
+	const node = threads()
+	return !!node && !node.isMainThread && !!node.parentPort
+}
+
+/**
+ * Get Node's `worker_threads`, when running in Node.
+ */
+function threads(): Threads | undefined {
+	return isNode() ? builtin('worker_threads') : undefined
+}